@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ComparisonView, type ComparedSnapshot } from '@/components/ComparisonView';
+import { supabase } from '@/integrations/supabase/client';
+import type { AnalysisSummary } from '@/lib/history';
+import type { AnalysisComparison } from '@shared/seo/index.ts';
+import { GitCompare } from 'lucide-react';
+
+interface ComparePanelProps {
+  history: AnalysisSummary[];
+  profile: string;
+}
+
+interface CompareResponse {
+  before: ComparedSnapshot;
+  after: ComparedSnapshot;
+  comparison: AnalysisComparison;
+}
+
+// Each side takes a URL to analyze now or a stored run picked from history
+const SnapshotInput = ({ label, value, onChange, history }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  history: AnalysisSummary[];
+}) => (
+  <div className="space-y-2 min-w-0">
+    <span className="text-xs font-mono text-muted-foreground">{label}</span>
+    <Input
+      placeholder="https://staging.example.com or analysis id"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="font-mono text-sm"
+    />
+    {history.length > 0 && (
+      <Select value="" onValueChange={onChange}>
+        <SelectTrigger className="font-mono text-xs h-8">
+          <SelectValue placeholder="pick a stored run" />
+        </SelectTrigger>
+        <SelectContent>
+          {history.map((entry) => (
+            <SelectItem key={entry.id} value={entry.id} className="font-mono text-xs">
+              {entry.total_score} · {entry.url} · {new Date(entry.created_at).toLocaleString()}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+  </div>
+);
+
+export const ComparePanel = ({ history, profile }: ComparePanelProps) => {
+  const [before, setBefore] = useState('');
+  const [after, setAfter] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CompareResponse | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const { data: response, error: invokeError } = await supabase.functions.invoke('analyze-seo', {
+        body: { action: 'compare', before, after, profile }
+      });
+      if (invokeError) {
+        const body = await invokeError.context?.json?.().catch(() => null);
+        throw new Error(body?.error || invokeError.message);
+      }
+      if (!response?.success) {
+        throw new Error(response?.error || 'Comparison failed');
+      }
+      setResult(response as CompareResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8 border border-border bg-card animate-fade-in">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-4 w-4 text-primary" />
+          <span className="font-mono text-sm">Compare Snapshots</span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <SnapshotInput label="before" value={before} onChange={setBefore} history={history} />
+            <SnapshotInput label="after" value={after} onChange={setAfter} history={history} />
+          </div>
+          <Button type="submit" disabled={isLoading || !before || !after} className="font-mono text-xs">
+            {isLoading ? 'Comparing...' : '--diff'}
+          </Button>
+        </form>
+        {error && <div className="font-mono text-xs text-red-500">{error}</div>}
+        {result && <ComparisonView before={result.before} after={result.after} comparison={result.comparison} />}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,117 @@
+import { Badge } from '@/components/ui/badge';
+import type { AnalysisComparison, ComparedValue, RuleChange, ScoreCategory, SEOAnalysis } from '@shared/seo/index.ts';
+
+export interface ComparedSnapshot extends SEOAnalysis {
+  url: string;
+  createdAt?: string;
+}
+
+interface ComparisonViewProps {
+  before: ComparedSnapshot;
+  after: ComparedSnapshot;
+  comparison: AnalysisComparison;
+}
+
+const CATEGORIES: ScoreCategory[] = ['basic', 'social', 'technical', 'images', 'keyword'];
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const deltaColor = (delta: number) =>
+  delta > 0 ? 'text-green-500' : delta < 0 ? 'text-red-500' : 'text-muted-foreground';
+
+const formatValue = (value: ComparedValue) =>
+  value === null ? <span className="text-red-500">❌ null</span> : String(value);
+
+const SnapshotHeader = ({ label, snapshot }: { label: string; snapshot: ComparedSnapshot }) => (
+  <div className="p-3 bg-muted/20 rounded font-mono text-xs space-y-1 min-w-0">
+    <div className="flex items-center justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-xl font-bold text-primary">{snapshot.score.total}</span>
+    </div>
+    <div className="truncate text-foreground">{snapshot.url}</div>
+    {snapshot.createdAt && (
+      <div className="text-muted-foreground">{new Date(snapshot.createdAt).toLocaleString()}</div>
+    )}
+  </div>
+);
+
+const RuleChangeList = ({ title, changes, color }: { title: string; changes: RuleChange[]; color: string }) => {
+  if (changes.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className={`font-mono text-xs ${color}`}>{title} ({changes.length})</div>
+      {changes.map((change) => (
+        <div key={change.id} className="flex flex-wrap items-center gap-2 p-2 bg-muted/20 rounded font-mono text-xs">
+          <span className="text-primary">{change.id}</span>
+          <Badge variant="outline" className="font-mono text-xs">
+            {change.before ?? '—'} → {change.after ?? '—'}
+          </Badge>
+          <span className={deltaColor(change.pointsDelta)}>{formatDelta(change.pointsDelta)} pts</span>
+          <span className="text-muted-foreground">{change.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ComparisonView = ({ before, after, comparison }: ComparisonViewProps) => {
+  const { scoreDelta } = comparison;
+
+  return (
+    <div className="space-y-4">
+      {/* Scores side by side */}
+      <div className="grid grid-cols-[1fr_auto_1fr] gap-3 items-center">
+        <SnapshotHeader label="before" snapshot={before} />
+        <div className={`font-mono text-lg font-bold text-center ${deltaColor(scoreDelta.total)}`}>
+          {formatDelta(scoreDelta.total)}
+        </div>
+        <SnapshotHeader label="after" snapshot={after} />
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+        {/* The keyword category only carries points when a target keyword was given */}
+        {CATEGORIES.filter((category) => before.score.max[category] || after.score.max[category]).map((category) => (
+          <div key={category} className="p-2 bg-muted/20 rounded flex items-center justify-between">
+            <span className="text-muted-foreground">{category}</span>
+            <span>
+              {before.score.breakdown[category] ?? 0} → {after.score.breakdown[category] ?? 0}{' '}
+              <span className={deltaColor(scoreDelta.breakdown[category])}>
+                ({formatDelta(scoreDelta.breakdown[category])})
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Rules */}
+      <RuleChangeList title="newly failing" changes={comparison.newlyFailing} color="text-red-500" />
+      <RuleChangeList title="newly passing" changes={comparison.newlyPassing} color="text-green-500" />
+      <RuleChangeList title="status changed" changes={comparison.statusChanges} color="text-orange-500" />
+
+      {/* Fields */}
+      {comparison.fieldChanges.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full font-mono text-xs">
+            <thead>
+              <tr className="text-muted-foreground text-left border-b border-border">
+                <th className="py-2 pr-3 font-normal">field</th>
+                <th className="py-2 pr-3 font-normal">before</th>
+                <th className="py-2 font-normal">after</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.fieldChanges.map((change) => (
+                <tr key={change.field} className="border-b border-border/50 align-top">
+                  <td className="py-2 pr-3 text-primary whitespace-nowrap">{change.field}</td>
+                  <td className="py-2 pr-3 break-words bg-red-500/5">{formatValue(change.before)}</td>
+                  <td className="py-2 break-words bg-green-500/5">{formatValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="font-mono text-xs text-muted-foreground">No field changes</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { SiteReportView } from '@/components/SiteReportView';
+import { supabase } from '@/integrations/supabase/client';
+import type { CrawlJob } from '@shared/seo/index.ts';
+import { Network } from 'lucide-react';
+
+interface CrawlPanelProps {
+  url: string;
+  profile: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const splitPatterns = (value: string) => value.split(',').map((pattern) => pattern.trim()).filter(Boolean);
+
+const invokeCrawl = async (body: Record<string, unknown>) => {
+  const { data: response, error: invokeError } = await supabase.functions.invoke('crawl-site', { body });
+  if (invokeError) {
+    const errorBody = await invokeError.context?.json?.().catch(() => null);
+    throw new Error(errorBody?.error || invokeError.message);
+  }
+  if (!response?.success) {
+    throw new Error(response?.error || 'Crawl request failed');
+  }
+  return response;
+};
+
+export const CrawlPanel = ({ url, profile }: CrawlPanelProps) => {
+  const [maxDepth, setMaxDepth] = useState(2);
+  const [maxPages, setMaxPages] = useState(25);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Crawls outlive a request, so the job is polled until it settles
+  const { data: job } = useQuery({
+    queryKey: ['crawl-job', jobId],
+    queryFn: async () => (await invokeCrawl({ jobId })).job as CrawlJob,
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    setError(null);
+    setJobId(null);
+
+    try {
+      const response = await invokeCrawl({
+        url,
+        maxDepth,
+        maxPages,
+        include: splitPatterns(include),
+        exclude: splitPatterns(exclude),
+        profile,
+      });
+      setJobId(response.jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start crawl');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8 border border-border bg-card animate-fade-in">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Network className="h-4 w-4 text-primary" />
+            <span className="font-mono text-sm">Site Crawl</span>
+          </div>
+          {job && (
+            <Badge variant="outline" className="font-mono text-xs">
+              {job.status}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+            <label className="space-y-1">
+              <span className="text-muted-foreground">--max-depth</span>
+              <Input type="number" min={0} max={5} value={maxDepth} onChange={(e) => setMaxDepth(Number(e.target.value))} className="font-mono text-sm" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-muted-foreground">--max-pages</span>
+              <Input type="number" min={1} max={100} value={maxPages} onChange={(e) => setMaxPages(Number(e.target.value))} className="font-mono text-sm" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-muted-foreground">--include</span>
+              <Input placeholder="/blog/*, /docs/*" value={include} onChange={(e) => setInclude(e.target.value)} className="font-mono text-sm" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-muted-foreground">--exclude</span>
+              <Input placeholder="*?page=*" value={exclude} onChange={(e) => setExclude(e.target.value)} className="font-mono text-sm" />
+            </label>
+          </div>
+          <Button type="submit" disabled={isStarting || !url} className="font-mono text-xs">
+            {isStarting ? 'Starting...' : `--crawl ${url || '<url>'}`}
+          </Button>
+        </form>
+
+        {error && <div className="font-mono text-xs text-red-500">{error}</div>}
+
+        {job && (job.status === 'queued' || job.status === 'running') && (
+          <div className="space-y-2 bg-muted/30 p-3 rounded-md">
+            <div className="flex items-center justify-between text-xs font-mono">
+              <span className="text-muted-foreground">$ crawl {job.startUrl}</span>
+              <span className="text-primary">{job.pagesCrawled}/{job.options.maxPages} pages</span>
+            </div>
+            <Progress value={(job.pagesCrawled / job.options.maxPages) * 100} className="h-1" />
+          </div>
+        )}
+        {job?.status === 'failed' && <div className="font-mono text-xs text-red-500">{job.error}</div>}
+        {job?.report && <SiteReportView report={job.report} />}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import type { DuplicateReport } from '@shared/seo/index.ts';
+
+interface DuplicateClustersProps {
+  duplicates: DuplicateReport;
+}
+
+const ClusterUrls = ({ urls }: { urls: string[] }) => (
+  <div className="space-y-0.5 pl-2 border-l border-border">
+    {urls.map((url) => (
+      <div key={url} className="truncate text-muted-foreground">{url}</div>
+    ))}
+  </div>
+);
+
+// One block per cluster, so each can be handed to whoever owns those pages
+export const DuplicateClusters = ({ duplicates }: DuplicateClustersProps) => {
+  const exact = [...duplicates.title, ...duplicates.description, ...duplicates.h1];
+  if (exact.length === 0 && duplicates.nearDuplicates.length === 0) {
+    return <div className="font-mono text-xs text-muted-foreground">No duplicate titles, descriptions, h1s or content</div>;
+  }
+
+  return (
+    <div className="space-y-2 font-mono text-xs">
+      <div className="text-muted-foreground">
+        duplicates ({duplicates.affectedPages} pages affected)
+      </div>
+      {exact.map((cluster) => (
+        <div key={`${cluster.field}:${cluster.value}`} className="p-2 bg-muted/20 rounded space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className="font-mono text-xs">{cluster.field}</Badge>
+            <span className="text-orange-500">× {cluster.urls.length}</span>
+            <span className="text-foreground break-words">{cluster.value}</span>
+          </div>
+          <ClusterUrls urls={cluster.urls} />
+        </div>
+      ))}
+      {duplicates.nearDuplicates.map((cluster) => (
+        <div key={cluster.urls.join(' ')} className="p-2 bg-muted/20 rounded space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className="font-mono text-xs">content</Badge>
+            <span className="text-orange-500">× {cluster.urls.length}</span>
+            <span className="text-muted-foreground">≥ {cluster.similarity}% similar body text</span>
+          </div>
+          <ClusterUrls urls={cluster.urls} />
+        </div>
+      ))}
+    </div>
+  );
+};
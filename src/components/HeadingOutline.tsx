@@ -0,0 +1,38 @@
+import { Badge } from '@/components/ui/badge';
+import { MAX_HEADING_LENGTH, type HeadingNode } from '@shared/seo/index.ts';
+
+interface HeadingOutlineProps {
+  nodes: HeadingNode[];
+  maxLength?: number;
+}
+
+export const HeadingOutline = ({ nodes, maxLength = MAX_HEADING_LENGTH }: HeadingOutlineProps) => {
+  return (
+    <ul className="space-y-1">
+      {nodes.map((node, idx) => (
+        <li key={idx}>
+          <div className="flex items-start gap-2 font-mono text-xs">
+            <Badge
+              variant="outline"
+              className={`font-mono text-xs shrink-0 ${node.level === 1 ? 'border-primary text-primary' : ''}`}
+            >
+              h{node.level}
+            </Badge>
+            {node.text ? (
+              <span className={`break-words ${node.text.length > maxLength ? 'text-orange-500' : 'text-foreground'}`}>
+                {node.text}
+              </span>
+            ) : (
+              <span className="text-red-500">❌ empty</span>
+            )}
+          </div>
+          {node.children.length > 0 && (
+            <div className="ml-4 mt-1 pl-3 border-l border-border">
+              <HeadingOutline nodes={node.children} maxLength={maxLength} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,53 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ImageInfo } from '@shared/seo/index.ts';
+
+interface ImageTableProps {
+  images: ImageInfo[];
+}
+
+export const ImageTable = ({ images }: ImageTableProps) => {
+  return (
+    <div className="max-h-96 overflow-auto rounded border border-border">
+      <Table className="font-mono text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead>src</TableHead>
+            <TableHead>alt</TableHead>
+            <TableHead>size</TableHead>
+            <TableHead>loading</TableHead>
+            <TableHead>srcset</TableHead>
+            <TableHead>ext</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {images.map((image, idx) => (
+            <TableRow key={idx}>
+              <TableCell className="max-w-xs truncate" title={image.src}>
+                {image.src || <span className="text-red-500">❌ empty</span>}
+              </TableCell>
+              <TableCell className="max-w-xs truncate" title={image.alt ?? undefined}>
+                {image.alt === null ? (
+                  <span className="text-red-500">❌ missing</span>
+                ) : image.alt.trim() === '' ? (
+                  <span className="text-muted-foreground">decorative</span>
+                ) : (
+                  image.alt
+                )}
+              </TableCell>
+              <TableCell>
+                {image.width && image.height ? (
+                  `${image.width}×${image.height}`
+                ) : (
+                  <span className="text-orange-500">unset</span>
+                )}
+              </TableCell>
+              <TableCell>{image.loading || '-'}</TableCell>
+              <TableCell>{image.hasSrcset ? '✓' : '-'}</TableCell>
+              <TableCell>{image.extension || '-'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
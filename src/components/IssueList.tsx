@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { RuleSeverity, SEOIssue } from '@shared/seo/index.ts';
+
+interface IssueListProps {
+  issues: SEOIssue[];
+}
+
+const SEVERITY_STYLES: Record<RuleSeverity, string> = {
+  error: 'border-red-500 text-red-500',
+  warning: 'border-orange-500 text-orange-500',
+  notice: 'border-blue-500 text-blue-500',
+};
+
+// Issues arrive sorted by priority; ticking one off only dims it locally
+export const IssueList = ({ issues }: IssueListProps) => {
+  const [done, setDone] = useState<Set<string>>(new Set());
+
+  const toggle = (ruleId: string) => {
+    setDone((previous) => {
+      const next = new Set(previous);
+      if (next.has(ruleId)) next.delete(ruleId);
+      else next.add(ruleId);
+      return next;
+    });
+  };
+
+  return (
+    <ul className="space-y-2">
+      {issues.map((issue) => (
+        <li
+          key={issue.ruleId}
+          className={`flex items-start gap-3 p-3 bg-muted/20 rounded font-mono text-xs ${done.has(issue.ruleId) ? 'opacity-50' : ''}`}
+        >
+          <Checkbox
+            checked={done.has(issue.ruleId)}
+            onCheckedChange={() => toggle(issue.ruleId)}
+            aria-label={`Mark ${issue.ruleId} as fixed`}
+            className="mt-0.5"
+          />
+          <div className="space-y-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={`font-mono text-xs ${SEVERITY_STYLES[issue.severity]}`}>
+                {issue.severity}
+              </Badge>
+              <span className="text-primary">{issue.ruleId}</span>
+              <span className={done.has(issue.ruleId) ? 'line-through' : 'text-foreground'}>{issue.message}</span>
+            </div>
+            <div className="text-muted-foreground break-all">
+              <span className="text-primary">selector:</span> {issue.selector}
+            </div>
+            <div className="text-muted-foreground break-words">
+              <span className="text-primary">observed:</span> {issue.observed}
+            </div>
+            <div className="text-muted-foreground break-words">
+              <span className="text-primary">expected:</span> {issue.expected}
+            </div>
+            <div className="text-foreground break-words">
+              <span className="text-primary">fix:</span> {issue.fix}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
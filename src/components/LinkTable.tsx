@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { normalizeUrl, type LinkCheckResult, type LinkInfo } from '@shared/seo/index.ts';
+
+type SortKey = 'text' | 'href' | 'type' | 'rel' | 'status';
+
+interface LinkTableProps {
+  links: LinkInfo[];
+  // Results of an optional broken link check, matched to links by URL without fragment
+  checks?: LinkCheckResult[];
+}
+
+const formatStatus = (check?: LinkCheckResult) => {
+  if (!check) return '';
+  if (check.timedOut) return 'timeout';
+  return check.status === null ? 'error' : String(check.status);
+};
+
+const StatusCell = ({ check }: { check?: LinkCheckResult }) => {
+  if (!check) return <TableCell className="text-muted-foreground">-</TableCell>;
+  return (
+    <TableCell className={check.ok ? 'text-green-500' : 'text-red-500'} title={check.error || check.finalUrl}>
+      {formatStatus(check)}{check.redirected && ' ↪'}
+    </TableCell>
+  );
+};
+
+export const LinkTable = ({ links, checks }: LinkTableProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>('type');
+  const [ascending, setAscending] = useState(true);
+
+  const checksByUrl = useMemo(
+    () => new Map((checks || []).map((check) => [check.url, check])),
+    [checks]
+  );
+
+  const sorted = useMemo(() => {
+    const direction = ascending ? 1 : -1;
+    const sortValue = (link: LinkInfo) => {
+      if (sortKey === 'rel') return link.rel.join(' ');
+      if (sortKey === 'status') return formatStatus(checksByUrl.get(normalizeUrl(link.href)));
+      return link[sortKey];
+    };
+    return [...links].sort((a, b) => sortValue(a).localeCompare(sortValue(b)) * direction);
+  }, [links, sortKey, ascending, checksByUrl]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const SortableHead = ({ column }: { column: SortKey }) => (
+    <TableHead>
+      <button type="button" onClick={() => toggleSort(column)} className="flex items-center gap-1 hover:text-foreground">
+        {column}
+        {sortKey === column && (ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="max-h-96 overflow-auto rounded border border-border">
+      <Table className="font-mono text-xs">
+        <TableHeader>
+          <TableRow>
+            <SortableHead column="text" />
+            <SortableHead column="href" />
+            <SortableHead column="type" />
+            <SortableHead column="rel" />
+            {checks && <SortableHead column="status" />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map((link, idx) => (
+            <TableRow key={idx}>
+              <TableCell className="max-w-xs truncate" title={link.text}>
+                {link.emptyText ? (
+                  <span className="text-red-500">❌ empty</span>
+                ) : (
+                  <span className={link.genericText ? 'text-orange-500' : ''}>{link.text}</span>
+                )}
+              </TableCell>
+              <TableCell className="max-w-xs truncate" title={link.href}>{link.href}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className="font-mono text-xs">{link.type}</Badge>
+              </TableCell>
+              <TableCell>{link.rel.join(' ') || '-'}</TableCell>
+              {checks && <StatusCell check={checksByUrl.get(normalizeUrl(link.href))} />}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { AlertCircle } from 'lucide-react';
+import type { ComparedValue, RenderReport } from '@shared/seo/index.ts';
+
+interface RenderReportViewProps {
+  report: RenderReport;
+  renderedScore: number;
+}
+
+const formatValue = (value: ComparedValue) =>
+  value === null ? <span className="text-red-500">❌ null</span> : String(value);
+
+export const RenderReportView = ({ report, renderedScore }: RenderReportViewProps) => {
+  const { comparison } = report;
+  const ruleChanges = [...comparison.newlyFailing, ...comparison.newlyPassing];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">raw score</div>
+          <div className="text-xl font-bold">{report.rawScore}</div>
+        </div>
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">rendered score</div>
+          <div className="text-xl font-bold text-primary">{renderedScore}</div>
+        </div>
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">fields changed</div>
+          <div className="text-xl font-bold">{comparison.fieldChanges.length}</div>
+        </div>
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">render time</div>
+          <div className="text-xl font-bold">{report.durationMs}ms</div>
+        </div>
+      </div>
+
+      {report.onlyRendered.length > 0 && (
+        <div className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+          <AlertCircle className="h-3 w-3 text-orange-500" />
+          Only present after JavaScript runs: {report.onlyRendered.join(', ')}
+        </div>
+      )}
+
+      {ruleChanges.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-mono text-xs text-muted-foreground">rules that depend on rendering</div>
+          {ruleChanges.map((change) => (
+            <div key={change.id} className="flex flex-wrap items-center gap-2 p-2 bg-muted/20 rounded font-mono text-xs">
+              <span className="text-primary">{change.id}</span>
+              <span>
+                raw {change.before ?? '—'} → rendered {change.after ?? '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {comparison.fieldChanges.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full font-mono text-xs">
+            <thead>
+              <tr className="text-muted-foreground text-left border-b border-border">
+                <th className="py-2 pr-3 font-normal">field</th>
+                <th className="py-2 pr-3 font-normal">raw</th>
+                <th className="py-2 font-normal">rendered</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.fieldChanges.map((change) => (
+                <tr key={change.field} className="border-b border-border/50 align-top">
+                  <td className="py-2 pr-3 text-primary whitespace-nowrap">{change.field}</td>
+                  <td className="py-2 pr-3 break-words">{formatValue(change.before)}</td>
+                  <td className="py-2 break-words">{formatValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="font-mono text-xs text-muted-foreground">
+          Raw and rendered metadata match; crawlers that run no JavaScript see the same page
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,45 +1,42 @@
-import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useAnalysisHistory, useStoredAnalysis, ANALYSIS_HISTORY_KEY } from '@/hooks/useAnalysisHistory';
+import { useQueryClient } from '@tanstack/react-query';
+import { fetchAnalysis } from '@/lib/history';
 import { LoadingSkeleton } from '@/components/LoadingSkeleton';
-import { Search, ExternalLink, Image, FileText, Tag, Globe, AlertCircle, CheckCircle, Zap, TrendingUp, Eye, Share2, Target, Terminal, Code, Bug, Cpu, Database, Monitor, Server, Book, Copy, Check, Download, History } from 'lucide-react';
-
-interface SEOData {
-  title?: string;
-  description?: string;
-  ogTitle?: string;
-  ogDescription?: string;
-  ogImage?: string;
-  ogType?: string;
-  twitterCard?: string;
-  twitterTitle?: string;
-  twitterDescription?: string;
-  twitterImage?: string;
-  canonical?: string;
-  keywords?: string;
-  url: string;
-  h1?: string;
-  metaRobots?: string;
-  lang?: string;
-  viewport?: string;
-  charset?: string;
-}
-
-interface SEOScore {
-  total: number;
-  breakdown: {
-    basic: number;
-    social: number;
-    technical: number;
-  };
-}
+import { HeadingOutline } from '@/components/HeadingOutline';
+import { ImageTable } from '@/components/ImageTable';
+import { LinkTable } from '@/components/LinkTable';
+import { StructuredDataTree } from '@/components/StructuredDataTree';
+import { IssueList } from '@/components/IssueList';
+import { SerpMetrics } from '@/components/SerpMetrics';
+import { ComparePanel } from '@/components/ComparePanel';
+import { CrawlPanel } from '@/components/CrawlPanel';
+import { SitemapReportView } from '@/components/SitemapReportView';
+import { RenderReportView } from '@/components/RenderReportView';
+import { SpecFindings } from '@/components/SpecFindings';
+import { supabase } from '@/integrations/supabase/client';
+import { SCORING_PROFILES, MIN_HSTS_MAX_AGE, MIN_TEXT_TO_HTML_RATIO, TITLE_LIMITS, DESCRIPTION_LIMITS, countIssues, type SEOAnalysis, type SEOIssue, type SEOData, type SEOScore, type HttpInfo, type RedirectHop, type LinkCheckReport, type SitemapReport, type RenderReport, type KeywordAudit } from '@shared/seo/index.ts';
+import { Search, ExternalLink, Image, FileText, Tag, Globe, AlertCircle, CheckCircle, Zap, TrendingUp, Eye, Share2, Target, Terminal, Code, Bug, Cpu, Database, Monitor, Server, Book, Copy, Check, Download, History, CornerDownRight, ListTree, Link2, Braces, ListChecks, GitCompare, Network, MapIcon, Bot, Languages, FileUp, MonitorPlay, BookOpen } from 'lucide-react';
+
+const KEYWORD_PLACEMENTS: [keyof Pick<KeywordAudit, 'title' | 'description' | 'h1' | 'urlSlug' | 'firstParagraph'>, string][] = [
+  ['title', 'title'],
+  ['description', 'description'],
+  ['h1', 'h1'],
+  ['urlSlug', 'url_slug'],
+  ['firstParagraph', 'first_paragraph'],
+];
 
 const EXAMPLE_URLS = [
   'https://github.com',
@@ -49,93 +46,35 @@ const EXAMPLE_URLS = [
 
 const SEOTester = () => {
   const [url, setUrl] = useState('');
+  const [inputMode, setInputMode] = useState<'url' | 'html'>('url');
+  const [html, setHtml] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [seoData, setSeoData] = useState<SEOData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
   const [seoScore, setSeoScore] = useState<SEOScore | null>(null);
+  const [issues, setIssues] = useState<SEOIssue[]>([]);
+  const [httpInfo, setHttpInfo] = useState<HttpInfo | null>(null);
+  const [redirects, setRedirects] = useState<RedirectHop[]>([]);
+  const [shouldCheckLinks, setShouldCheckLinks] = useState(false);
+  const [profile, setProfile] = useState('default');
+  const [targetKeyword, setTargetKeyword] = useState('');
+  const [linkCheck, setLinkCheck] = useState<LinkCheckReport | null>(null);
+  const [shouldCheckSitemap, setShouldCheckSitemap] = useState(false);
+  const [sitemap, setSitemap] = useState<SitemapReport | null>(null);
+  const [shouldRender, setShouldRender] = useState(false);
+  const [render, setRender] = useState<RenderReport | null>(null);
   const [showResults, setShowResults] = useState(false);
-  const [urlHistory, setUrlHistory] = useLocalStorage<string[]>('seo-history', []);
+  const { data: history = [] } = useAnalysisHistory();
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const { data: linkedAnalysis } = useStoredAnalysis(searchParams.get('analysis'));
   const [copied, setCopied] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showCrawl, setShowCrawl] = useState(false);
   const { toast } = useToast();
 
-  const extractMetaData = (html: string, url: string): SEOData => {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    
-    const getMetaContent = (name: string, property?: string) => {
-      if (property) {
-        const element = doc.querySelector(`meta[property="${property}"]`);
-        return element?.getAttribute('content') || '';
-      }
-      const element = doc.querySelector(`meta[name="${name}"]`) || 
-                     doc.querySelector(`meta[property="${name}"]`);
-      return element?.getAttribute('content') || '';
-    };
-
-    const title = doc.querySelector('title')?.textContent || '';
-    const canonical = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || '';
-    const h1 = doc.querySelector('h1')?.textContent || '';
-    const htmlElement = doc.querySelector('html');
-    const lang = htmlElement?.getAttribute('lang') || '';
-
-    return {
-      title,
-      description: getMetaContent('description'),
-      ogTitle: getMetaContent('', 'og:title'),
-      ogDescription: getMetaContent('', 'og:description'),
-      ogImage: getMetaContent('', 'og:image'),
-      ogType: getMetaContent('', 'og:type'),
-      twitterCard: getMetaContent('twitter:card'),
-      twitterTitle: getMetaContent('twitter:title'),
-      twitterDescription: getMetaContent('twitter:description'),
-      twitterImage: getMetaContent('twitter:image'),
-      canonical,
-      keywords: getMetaContent('keywords'),
-      h1,
-      metaRobots: getMetaContent('robots'),
-      lang,
-      viewport: getMetaContent('viewport'),
-      charset: doc.querySelector('meta[charset]')?.getAttribute('charset') || '',
-      url
-    };
-  };
-
-  const calculateSEOScore = (data: SEOData): SEOScore => {
-    let basicScore = 0;
-    let socialScore = 0;
-    let technicalScore = 0;
-
-    // Basic SEO (40 points max)
-    if (data.title) basicScore += 15;
-    if (data.description) basicScore += 15;
-    if (data.h1) basicScore += 10;
-
-    // Social Media (30 points max)
-    if (data.ogTitle || data.title) socialScore += 8;
-    if (data.ogDescription || data.description) socialScore += 8;
-    if (data.ogImage) socialScore += 14;
-
-    // Technical SEO (30 points max)
-    if (data.canonical) technicalScore += 10;
-    if (data.lang) technicalScore += 5;
-    if (data.viewport) technicalScore += 5;
-    if (data.charset) technicalScore += 5;
-    if (!data.metaRobots || !data.metaRobots.includes('noindex')) technicalScore += 5;
-
-    const total = basicScore + socialScore + technicalScore;
-
-    return {
-      total,
-      breakdown: {
-        basic: basicScore,
-        social: socialScore,
-        technical: technicalScore
-      }
-    };
-  };
-
   const analyzeSEO = async () => {
     if (!url) {
       toast({
@@ -145,15 +84,24 @@ const SEOTester = () => {
       });
       return;
     }
-
-    // Add to history
-    if (!urlHistory.includes(url)) {
-      setUrlHistory([url, ...urlHistory.slice(0, 9)]); // Keep last 10
+    if (inputMode === 'html' && !html.trim()) {
+      toast({
+        title: "Error",
+        description: "Please paste the page HTML",
+        variant: "destructive",
+      });
+      return;
     }
 
     setIsLoading(true);
     setError(null);
     setSeoData(null);
+    setIssues([]);
+    setHttpInfo(null);
+    setRedirects([]);
+    setLinkCheck(null);
+    setSitemap(null);
+    setRender(null);
 
     try {
       setProgress(20);
@@ -161,31 +109,30 @@ const SEOTester = () => {
       const urlObj = new URL(url);
       setProgress(40);
       
-      const proxyUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(url)}`;
-      const response = await fetch(proxyUrl);
+      const { data: response, error: invokeError } = await supabase.functions.invoke('analyze-seo', {
+        // Pasted markup is analyzed as-is; link and sitemap checks and rendering need the live site
+        body: {
+          ...(inputMode === 'html'
+            ? { url, html, profile }
+            : { url, checkLinks: shouldCheckLinks, sitemap: shouldCheckSitemap, render: shouldRender, profile }),
+          ...(targetKeyword.trim() ? { targetKeyword: targetKeyword.trim() } : {}),
+        }
+      });
       setProgress(70);
       
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (invokeError) {
+        const body = await invokeError.context?.json?.().catch(() => null);
+        throw new Error(body?.error || invokeError.message);
       }
       
-      const data = await response.json();
-      
-      if (!data.contents) {
-        throw new Error('No content received from the website');
+      if (!response?.success) {
+        throw new Error(response?.error || 'No content received from the website');
       }
 
       setProgress(90);
-      const extractedData = extractMetaData(data.contents, url);
-      const score = calculateSEOScore(extractedData);
-      
-      setSeoData(extractedData);
-      setSeoScore(score);
+      showAnalysis(response as SEOAnalysis);
       setProgress(100);
-      
-      setTimeout(() => {
-        setShowResults(true);
-      }, 200);
+      queryClient.invalidateQueries({ queryKey: ANALYSIS_HISTORY_KEY });
       
       toast({
         title: "Success",
@@ -217,6 +164,45 @@ const SEOTester = () => {
     }
   };
 
+  const showAnalysis = useCallback((analysis: SEOAnalysis) => {
+    setSeoData(analysis.data);
+    setSeoScore(analysis.score);
+    setIssues(analysis.issues ?? []);
+    setHttpInfo(analysis.http ?? null);
+    setRedirects(analysis.redirects ?? []);
+    setLinkCheck(analysis.linkCheck ?? null);
+    setSitemap(analysis.sitemap ?? null);
+    setRender(analysis.render ?? null);
+
+    setTimeout(() => {
+      setShowResults(true);
+    }, 200);
+  }, []);
+
+  // Snapshots linked from the history page open without fetching the site again
+  useEffect(() => {
+    if (!linkedAnalysis) return;
+    setUrl(linkedAnalysis.url);
+    showAnalysis(linkedAnalysis);
+  }, [linkedAnalysis, showAnalysis]);
+
+  // Stored runs open instantly without fetching the site again
+  const openStoredAnalysis = async (id: string) => {
+    setShowHistory(false);
+    setError(null);
+    try {
+      const stored = await fetchAnalysis(id);
+      setUrl(stored.url);
+      showAnalysis(stored);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to load stored analysis',
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     analyzeSEO();
@@ -336,6 +322,12 @@ const SEOTester = () => {
                   API Docs
                 </Button>
               </Link>
+              <Link to="/history">
+                <Button variant="ghost" size="sm" className="text-xs font-mono">
+                  <History className="h-3 w-3 mr-1" />
+                  Score History
+                </Button>
+              </Link>
             </div>
             
             <div className="text-left">
@@ -361,6 +353,13 @@ const SEOTester = () => {
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-4">
+                <Tabs value={inputMode} onValueChange={(value) => setInputMode(value as 'url' | 'html')}>
+                  <TabsList className="font-mono">
+                    <TabsTrigger value="url" className="text-xs font-mono">--url</TabsTrigger>
+                    <TabsTrigger value="html" className="text-xs font-mono">--paste-html</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
                 <div className="flex gap-3">
                   <div className="flex-1 relative">
                     <div className="absolute left-3 top-1/2 transform -translate-y-1/2 text-primary font-mono text-sm">
@@ -368,7 +367,7 @@ const SEOTester = () => {
                     </div>
                     <Input
                       type="url"
-                      placeholder="https://example.com"
+                      placeholder={inputMode === 'html' ? 'https://staging.example.com/page (address of the pasted page)' : 'https://example.com'}
                       value={url}
                       onChange={(e) => setUrl(e.target.value)}
                       className="font-mono pl-8 pr-10 bg-muted/30 border-border focus:border-primary"
@@ -394,7 +393,84 @@ const SEOTester = () => {
                     )}
                   </Button>
                 </div>
+
+                {inputMode === 'html' && (
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="<!DOCTYPE html>..."
+                      value={html}
+                      onChange={(e) => setHtml(e.target.value)}
+                      className="font-mono text-xs min-h-40 bg-muted/30"
+                    />
+                    <label className="flex items-center gap-2 text-xs font-mono text-muted-foreground w-fit cursor-pointer">
+                      <FileUp className="h-3 w-3" />
+                      load from file
+                      <input
+                        type="file"
+                        accept=".html,.htm,text/html"
+                        className="hidden"
+                        onChange={async (e) => {
+                          const file = e.target.files?.[0];
+                          if (file) setHtml(await file.text());
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  </div>
+                )}
                 
+                <div className="flex flex-wrap items-center gap-6">
+                  <label className="flex items-center gap-2 text-xs font-mono text-muted-foreground cursor-pointer w-fit">
+                    <Checkbox
+                      checked={shouldCheckLinks}
+                      onCheckedChange={(checked) => setShouldCheckLinks(checked === true)}
+                      disabled={inputMode === 'html'}
+                    />
+                    --check-links
+                    <span className="text-muted-foreground/70">(request every link on the page, slower)</span>
+                  </label>
+                  <label className="flex items-center gap-2 text-xs font-mono text-muted-foreground cursor-pointer w-fit">
+                    <Checkbox
+                      checked={shouldCheckSitemap}
+                      onCheckedChange={(checked) => setShouldCheckSitemap(checked === true)}
+                      disabled={inputMode === 'html'}
+                    />
+                    --sitemap
+                    <span className="text-muted-foreground/70">(validate sitemaps and analyze their first URLs)</span>
+                  </label>
+                  <label className="flex items-center gap-2 text-xs font-mono text-muted-foreground cursor-pointer w-fit">
+                    <Checkbox
+                      checked={shouldRender}
+                      onCheckedChange={(checked) => setShouldRender(checked === true)}
+                      disabled={inputMode === 'html'}
+                    />
+                    --render
+                    <span className="text-muted-foreground/70">(run JavaScript and diff against the raw HTML)</span>
+                  </label>
+                  <div className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+                    --profile
+                    <Select value={profile} onValueChange={setProfile}>
+                      <SelectTrigger className="h-7 w-36 font-mono text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.keys(SCORING_PROFILES).map((name) => (
+                          <SelectItem key={name} value={name} className="font-mono text-xs">{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+                    --keyword
+                    <Input
+                      value={targetKeyword}
+                      onChange={(e) => setTargetKeyword(e.target.value)}
+                      placeholder="target phrase"
+                      className="h-7 w-44 font-mono text-xs"
+                    />
+                  </div>
+                </div>
+
                 {/* Example URLs */}
                 <div className="flex flex-wrap gap-2">
                   <span className="text-xs text-muted-foreground font-mono">Try:</span>
@@ -410,7 +486,7 @@ const SEOTester = () => {
                       {exampleUrl}
                     </Button>
                   ))}
-                  {urlHistory.length > 0 && (
+                  {history.length > 0 && (
                     <Button
                       type="button"
                       variant="outline"
@@ -422,22 +498,41 @@ const SEOTester = () => {
                       History
                     </Button>
                   )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowCompare(!showCompare)}
+                    className="text-xs font-mono"
+                  >
+                    <GitCompare className="h-3 w-3 mr-1" />
+                    Compare
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowCrawl(!showCrawl)}
+                    className="text-xs font-mono"
+                  >
+                    <Network className="h-3 w-3 mr-1" />
+                    Crawl
+                  </Button>
                 </div>
 
                 {/* History Dropdown */}
-                {showHistory && urlHistory.length > 0 && (
-                  <div className="bg-muted/30 rounded border border-border p-2 space-y-1 animate-fade-in">
-                    {urlHistory.map((histUrl, idx) => (
+                {showHistory && history.length > 0 && (
+                  <div className="bg-muted/30 rounded border border-border p-2 space-y-1 animate-fade-in max-h-64 overflow-auto">
+                    {history.map((entry) => (
                       <button
-                        key={idx}
+                        key={entry.id}
                         type="button"
-                        onClick={() => {
-                          setUrl(histUrl);
-                          setShowHistory(false);
-                        }}
-                        className="w-full text-left text-xs font-mono px-2 py-1 rounded hover:bg-muted text-foreground"
+                        onClick={() => openStoredAnalysis(entry.id)}
+                        className="w-full flex items-center gap-3 text-left text-xs font-mono px-2 py-1 rounded hover:bg-muted text-foreground"
                       >
-                        {histUrl}
+                        <span className="text-primary w-8 shrink-0">{entry.total_score}</span>
+                        <span className="truncate flex-1">{entry.url}</span>
+                        <span className="text-muted-foreground shrink-0">{new Date(entry.created_at).toLocaleString()}</span>
                       </button>
                     ))}
                   </div>
@@ -459,6 +554,12 @@ const SEOTester = () => {
             </CardContent>
           </Card>
 
+          {/* Compare */}
+          {showCompare && <ComparePanel history={history} profile={profile} />}
+
+          {/* Crawl */}
+          {showCrawl && <CrawlPanel url={url} profile={profile} />}
+
           {/* Error Console */}
           {error && (
             <Card className="mb-8 border-destructive bg-destructive/5">
@@ -511,6 +612,11 @@ const SEOTester = () => {
                       >
                         <Download className="h-3 w-3" />
                       </Button>
+                      <Link to={`/history?url=${encodeURIComponent(url)}`}>
+                        <Button variant="ghost" size="sm" className="text-xs" title="Score history">
+                          <TrendingUp className="h-3 w-3" />
+                        </Button>
+                      </Link>
                     </div>
                   </div>
                 </CardHeader>
@@ -528,7 +634,7 @@ const SEOTester = () => {
                     </div>
                     
                     {/* Breakdown */}
-                    <div className="md:col-span-3 grid grid-cols-3 gap-3">
+                    <div className="md:col-span-3 grid grid-cols-2 md:grid-cols-4 gap-3">
                       <div className="bg-muted/20 p-3 rounded">
                         <div className="flex items-center gap-2 mb-2">
                           <FileText className="h-3 w-3 text-blue-500" />
@@ -537,7 +643,7 @@ const SEOTester = () => {
                         <div className="text-xl font-bold font-mono">
                           <AnimatedCounter value={seoScore.breakdown.basic} />
                         </div>
-                        <div className="text-xs text-muted-foreground">/40 pts</div>
+                        <div className="text-xs text-muted-foreground">/{seoScore.max.basic} pts</div>
                       </div>
                       
                       <div className="bg-muted/20 p-3 rounded">
@@ -548,7 +654,7 @@ const SEOTester = () => {
                         <div className="text-xl font-bold font-mono">
                           <AnimatedCounter value={seoScore.breakdown.social} />
                         </div>
-                        <div className="text-xs text-muted-foreground">/30 pts</div>
+                        <div className="text-xs text-muted-foreground">/{seoScore.max.social} pts</div>
                       </div>
                       
                       <div className="bg-muted/20 p-3 rounded">
@@ -559,8 +665,33 @@ const SEOTester = () => {
                         <div className="text-xl font-bold font-mono">
                           <AnimatedCounter value={seoScore.breakdown.technical} />
                         </div>
-                        <div className="text-xs text-muted-foreground">/30 pts</div>
+                        <div className="text-xs text-muted-foreground">/{seoScore.max.technical} pts</div>
+                      </div>
+                      
+                      <div className="bg-muted/20 p-3 rounded">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Image className="h-3 w-3 text-purple-500" />
+                          <span className="text-xs font-mono text-muted-foreground">IMAGES</span>
+                        </div>
+                        <div className="text-xl font-bold font-mono">
+                          <AnimatedCounter value={seoScore.breakdown.images} />
+                        </div>
+                        <div className="text-xs text-muted-foreground">/{seoScore.max.images} pts</div>
                       </div>
+
+                      {/* Only scored with a target keyword; stored scores may predate the category */}
+                      {!!seoScore.max.keyword && (
+                        <div className="bg-muted/20 p-3 rounded">
+                          <div className="flex items-center gap-2 mb-2">
+                            <Target className="h-3 w-3 text-pink-500" />
+                            <span className="text-xs font-mono text-muted-foreground">KEYWORD</span>
+                          </div>
+                          <div className="text-xl font-bold font-mono">
+                            <AnimatedCounter value={seoScore.breakdown.keyword} />
+                          </div>
+                          <div className="text-xs text-muted-foreground">/{seoScore.max.keyword} pts</div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -644,6 +775,30 @@ const SEOTester = () => {
                 </CardContent>
               </Card>
 
+              {/* Issues */}
+              {issues.length > 0 && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <ListChecks className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Issues</span>
+                      </div>
+                      <div className="flex gap-1">
+                        {Object.entries(countIssues(issues)).map(([severity, count]) => (
+                          <Badge key={severity} variant="outline" className="font-mono text-xs">
+                            {severity}:{count}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <IssueList issues={issues} />
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Detailed Analysis */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Basic Metadata */}
@@ -655,7 +810,7 @@ const SEOTester = () => {
                         <span className="font-mono text-sm">Basic Metadata</span>
                       </div>
                       <Badge variant="outline" className="font-mono text-xs">
-                        {seoScore.breakdown.basic}/40
+                        {seoScore.breakdown.basic}/{seoScore.max.basic}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -663,13 +818,15 @@ const SEOTester = () => {
                     <DataField 
                       label="title" 
                       value={seoData.title || ''} 
-                      isGood={!!seoData.title && seoData.title.length >= 30 && seoData.title.length <= 60}
+                      isGood={seoData.serp ? seoData.serp.title.warnings.length === 0 : !!seoData.title}
                     />
+                    {seoData.serp && <SerpMetrics audit={seoData.serp.title} limits={TITLE_LIMITS} />}
                     <DataField 
                       label="description" 
                       value={seoData.description || ''} 
-                      isGood={!!seoData.description && seoData.description.length >= 120 && seoData.description.length <= 160}
+                      isGood={seoData.serp ? seoData.serp.description.warnings.length === 0 : !!seoData.description}
                     />
+                    {seoData.serp && <SerpMetrics audit={seoData.serp.description} limits={DESCRIPTION_LIMITS} />}
                     <DataField 
                       label="h1" 
                       value={seoData.h1 || ''} 
@@ -691,7 +848,7 @@ const SEOTester = () => {
                         <span className="font-mono text-sm">Social Media</span>
                       </div>
                       <Badge variant="outline" className="font-mono text-xs">
-                        {seoScore.breakdown.social}/30
+                        {seoScore.breakdown.social}/{seoScore.max.social}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -715,10 +872,352 @@ const SEOTester = () => {
                       label="og:type" 
                       value={seoData.ogType || ''} 
                     />
+                    <DataField
+                      label="og:url"
+                      value={seoData.ogUrl || ''}
+                      isGood={!seoData.openGraph?.canonicalMismatch}
+                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <DataField label="og:site_name" value={seoData.ogSiteName || ''} />
+                      <DataField label="og:locale" value={seoData.ogLocale || ''} />
+                      <DataField
+                        label="og:image size"
+                        value={seoData.ogImageWidth && seoData.ogImageHeight ? `${seoData.ogImageWidth}×${seoData.ogImageHeight}` : ''}
+                      />
+                      <DataField label="og:image:alt" value={seoData.ogImageAlt || ''} />
+                    </div>
+                    {seoData.openGraph?.canonicalMismatch && (
+                      <div className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                        <AlertCircle className="h-3 w-3 text-orange-500" />
+                        og:url differs from the canonical {seoData.canonical}
+                      </div>
+                    )}
+                    {seoData.openGraph && (
+                      <SpecFindings errors={seoData.openGraph.errors} warnings={seoData.openGraph.warnings} />
+                    )}
                   </CardContent>
                 </Card>
               </div>
 
+              {/* Heading Outline */}
+              {seoData.headings && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <ListTree className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Heading Outline</span>
+                      </div>
+                      <div className="flex gap-1">
+                        {Object.entries(seoData.headings.counts).map(([tag, count]) => (
+                          <Badge key={tag} variant="outline" className="font-mono text-xs">
+                            {tag}:{count}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {seoData.headings.warnings.length > 0 && (
+                      <div className="space-y-1">
+                        {seoData.headings.warnings.map((warning, idx) => (
+                          <div key={idx} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                            <AlertCircle className="h-3 w-3 text-orange-500" />
+                            {warning}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {seoData.headings.outline.length > 0 ? (
+                      <div className="bg-muted/20 p-3 rounded max-h-96 overflow-auto">
+                        <HeadingOutline nodes={seoData.headings.outline} />
+                      </div>
+                    ) : (
+                      <div className="font-mono text-xs text-muted-foreground">No headings found</div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Keyword */}
+              {seoData.keyword && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Target className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Keyword: {seoData.keyword.keyword}</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {seoData.keyword.density}% density
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      {KEYWORD_PLACEMENTS.map(([field, label]) => {
+                        const placement = seoData.keyword![field];
+                        return (
+                          <DataField
+                            key={field}
+                            label={label}
+                            value={placement.found ? `word ${(placement.position ?? 0) + 1}` : ''}
+                            isGood={placement.found}
+                          />
+                        );
+                      })}
+                      <DataField
+                        label="subheadings"
+                        value={`${seoData.keyword.headings.withKeyword}/${seoData.keyword.headings.total}`}
+                        isGood={seoData.keyword.headings.withKeyword > 0}
+                      />
+                      <DataField
+                        label="image_alts"
+                        value={`${seoData.keyword.imageAlts.withKeyword}/${seoData.keyword.imageAlts.total}`}
+                        isGood={seoData.keyword.imageAlts.withKeyword > 0}
+                      />
+                      <DataField label="occurrences" value={String(seoData.keyword.occurrences)} />
+                    </div>
+                    {seoData.keyword.warnings.map((warning, idx) => (
+                      <div key={idx} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                        <AlertCircle className="h-3 w-3 text-orange-500" />
+                        {warning}
+                      </div>
+                    ))}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {Object.entries(seoData.keyword.topNgrams).map(([size, grams]) => (
+                        <div key={size} className="space-y-1">
+                          <div className="font-mono text-xs text-muted-foreground">top {size}</div>
+                          {grams.length > 0 ? grams.map((gram) => (
+                            <div key={gram.phrase} className="flex justify-between gap-2 p-1 bg-muted/20 rounded font-mono text-xs">
+                              <span className={gram.phrase === seoData.keyword!.keyword ? 'text-primary' : ''}>{gram.phrase}</span>
+                              <span className="text-muted-foreground">×{gram.count}</span>
+                            </div>
+                          )) : (
+                            <div className="font-mono text-xs text-muted-foreground">No repeated phrases</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Content */}
+              {seoData.content && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <BookOpen className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Content</span>
+                      </div>
+                      <Badge variant="outline" className={`font-mono text-xs ${seoData.content.thin ? 'text-orange-500' : ''}`}>
+                        {seoData.content.thin ? 'thin' : `${seoData.content.wordCount} words`}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                      <DataField label="words" value={String(seoData.content.wordCount)} isGood={!seoData.content.thin} />
+                      <DataField label="paragraphs" value={String(seoData.content.paragraphCount)} />
+                      <DataField label="sentences" value={String(seoData.content.sentenceCount)} />
+                      <DataField
+                        label="flesch_reading_ease"
+                        value={seoData.content.readability ? String(seoData.content.readability.fleschReadingEase) : ''}
+                        isGood={seoData.content.readability && seoData.content.readability.fleschReadingEase >= 50}
+                      />
+                      <DataField
+                        label="grade_level"
+                        value={seoData.content.readability ? String(seoData.content.readability.gradeLevel) : ''}
+                      />
+                      <DataField
+                        label="text_to_html"
+                        value={`${seoData.content.textToHtmlRatio}%`}
+                        isGood={seoData.content.textToHtmlRatio >= MIN_TEXT_TO_HTML_RATIO}
+                      />
+                    </div>
+                    {!seoData.content.readability && (
+                      <div className="font-mono text-xs text-muted-foreground">
+                        Readability is only scored for English pages
+                      </div>
+                    )}
+                    {seoData.content.warnings.map((warning, idx) => (
+                      <div key={idx} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                        <AlertCircle className="h-3 w-3 text-orange-500" />
+                        {warning}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Images */}
+              {seoData.images && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Image className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Images</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {seoScore.breakdown.images}/{seoScore.max.images}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 font-mono text-xs">
+                      <div className="p-2 bg-muted/20 rounded">total: {seoData.images.total}</div>
+                      <div className={`p-2 rounded ${seoData.images.missingAlt ? 'bg-destructive/10 text-destructive' : 'bg-muted/20'}`}>
+                        missing alt: {seoData.images.missingAlt}
+                      </div>
+                      <div className={`p-2 rounded ${seoData.images.missingDimensions ? 'bg-warning/10' : 'bg-muted/20'}`}>
+                        no width/height: {seoData.images.missingDimensions}
+                      </div>
+                      <div className="p-2 bg-muted/20 rounded">lazy: {seoData.images.lazyLoaded}</div>
+                      <div className="p-2 bg-muted/20 rounded">srcset: {seoData.images.withSrcset}</div>
+                    </div>
+                    {seoData.images.total > 0 ? (
+                      <ImageTable images={seoData.images.images} />
+                    ) : (
+                      <div className="font-mono text-xs text-muted-foreground">No images found</div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Links */}
+              {seoData.links && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Link2 className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Links</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {seoData.links.total} total
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+                      {Object.entries(seoData.links.counts).map(([type, count]) => (
+                        <div key={type} className="p-2 bg-muted/20 rounded">{type}: {count}</div>
+                      ))}
+                      <div className="p-2 bg-muted/20 rounded">nofollow: {seoData.links.nofollow}</div>
+                      <div className={`p-2 rounded ${seoData.links.emptyText ? 'bg-destructive/10 text-destructive' : 'bg-muted/20'}`}>
+                        empty text: {seoData.links.emptyText}
+                      </div>
+                    </div>
+                    {linkCheck && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+                        <div className="p-2 bg-muted/20 rounded">checked: {linkCheck.checked}</div>
+                        <div className={`p-2 rounded ${linkCheck.broken ? 'bg-destructive/10 text-destructive' : 'bg-muted/20'}`}>
+                          broken: {linkCheck.broken}
+                        </div>
+                        <div className="p-2 bg-muted/20 rounded">redirected: {linkCheck.redirected}</div>
+                        <div className={`p-2 rounded ${linkCheck.timedOut ? 'bg-warning/10' : 'bg-muted/20'}`}>
+                          timed out: {linkCheck.timedOut}
+                        </div>
+                      </div>
+                    )}
+                    {linkCheck && linkCheck.skipped > 0 && (
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {linkCheck.skipped} links were not checked (per-request limit reached)
+                      </div>
+                    )}
+                    {seoData.links.genericText > 0 && (
+                      <div className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                        <AlertCircle className="h-3 w-3 text-orange-500" />
+                        {seoData.links.genericText} links use generic anchor text such as "click here"
+                      </div>
+                    )}
+                    {seoData.links.total > 0 ? (
+                      <LinkTable links={seoData.links.links} checks={linkCheck?.results} />
+                    ) : (
+                      <div className="font-mono text-xs text-muted-foreground">No links found</div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Rendering */}
+              {render && seoScore && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <MonitorPlay className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Raw vs Rendered</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {render.renderer}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <RenderReportView report={render} renderedScore={seoScore.total} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Sitemap */}
+              {sitemap && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <MapIcon className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Sitemap</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {sitemap.totalUrls} urls
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <SitemapReportView report={sitemap} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Structured Data */}
+              {seoData.structuredData && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Braces className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Structured Data</span>
+                      </div>
+                      <div className="flex gap-1">
+                        <Badge variant="outline" className="font-mono text-xs">
+                          {seoData.structuredData.items.length} blocks
+                        </Badge>
+                        {seoData.structuredData.errors > 0 && (
+                          <Badge variant="destructive" className="font-mono text-xs">
+                            {seoData.structuredData.errors} errors
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {seoData.structuredData.items.length > 0 ? (
+                      seoData.structuredData.items.map((item, idx) => (
+                        <StructuredDataTree key={idx} item={item} />
+                      ))
+                    ) : (
+                      <div className="font-mono text-xs text-muted-foreground">
+                        No JSON-LD, microdata or RDFa found
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Technical SEO */}
               <Card className="border border-border bg-card">
                 <CardHeader className="pb-3">
@@ -728,7 +1227,7 @@ const SEOTester = () => {
                       <span className="font-mono text-sm">Technical Analysis</span>
                     </div>
                     <Badge variant="outline" className="font-mono text-xs">
-                      {seoScore.breakdown.technical}/30
+                      {seoScore.breakdown.technical}/{seoScore.max.technical}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -762,19 +1261,247 @@ const SEOTester = () => {
                       label="url" 
                       value={seoData.url} 
                     />
+                    {httpInfo && (
+                      <>
+                        <DataField 
+                          label="http status" 
+                          value={`${httpInfo.status} ${httpInfo.statusText}`.trim()} 
+                          isGood={httpInfo.status >= 200 && httpInfo.status < 300}
+                        />
+                        <DataField 
+                          label="content-type" 
+                          value={httpInfo.contentType} 
+                          isGood={httpInfo.contentType.includes('html')}
+                        />
+                      </>
+                    )}
                   </div>
                 </CardContent>
               </Card>
 
+              {/* Hreflang */}
+              {seoData.hreflang && seoData.hreflang.entries.length > 0 && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Languages className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Hreflang</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {seoData.hreflang.entries.length} alternates
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {seoData.hreflang.warnings.length > 0 && (
+                      <div className="space-y-1">
+                        {seoData.hreflang.warnings.map((warning) => (
+                          <div key={warning} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                            <AlertCircle className="h-3 w-3 text-orange-500" />
+                            {warning}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="space-y-1 font-mono text-xs">
+                      {seoData.hreflang.entries.map((entry) => (
+                        <div key={`${entry.hreflang}:${entry.href}`} className="flex flex-wrap items-center gap-2 p-2 bg-muted/20 rounded">
+                          <Badge variant="outline" className={`font-mono text-xs ${entry.valid ? '' : 'text-red-500'}`}>
+                            {entry.hreflang || 'empty'}
+                          </Badge>
+                          <span className="break-all text-foreground">{entry.href}</span>
+                          {entry.error && <span className="text-red-500">{entry.error}</span>}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-3 font-mono text-xs text-muted-foreground">
+                      <span className={seoData.hreflang.selfReference ? 'text-green-500' : 'text-orange-500'}>
+                        self-reference: {seoData.hreflang.selfReference ? 'yes' : 'no'}
+                      </span>
+                      <span className={seoData.hreflang.xDefault ? 'text-green-500' : 'text-orange-500'}>
+                        x-default: {seoData.hreflang.xDefault ? 'yes' : 'no'}
+                      </span>
+                      <span>html lang: {seoData.lang || 'none'}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Response Headers */}
+              {seoData.headers && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Server className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Response Headers</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {seoData.headers.warnings.length} warnings
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {seoData.headers.warnings.length > 0 && (
+                      <div className="space-y-1">
+                        {seoData.headers.warnings.map((warning) => (
+                          <div key={warning} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                            <AlertCircle className="h-3 w-3 text-orange-500" />
+                            {warning}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <DataField 
+                        label="x-robots-tag" 
+                        value={seoData.headers.xRobotsTag || 'none'} 
+                        isGood={!seoData.headers.noindex}
+                      />
+                      <DataField 
+                        label="content-encoding" 
+                        value={seoData.headers.contentEncoding} 
+                        isGood={seoData.headers.compressed}
+                      />
+                      <DataField 
+                        label="cache-control" 
+                        value={seoData.headers.cacheControl} 
+                        isGood={seoData.headers.cacheable}
+                      />
+                      <DataField 
+                        label="etag / last-modified" 
+                        value={[seoData.headers.etag, seoData.headers.lastModified].filter(Boolean).join(' · ')} 
+                        isGood={!!seoData.headers.etag || !!seoData.headers.lastModified}
+                      />
+                      <DataField 
+                        label="strict-transport-security" 
+                        value={seoData.headers.strictTransportSecurity} 
+                        isGood={(seoData.headers.hstsMaxAge ?? 0) >= MIN_HSTS_MAX_AGE}
+                      />
+                      <DataField 
+                        label="content-type charset" 
+                        value={seoData.headers.contentTypeCharset} 
+                        isGood={!!seoData.headers.contentTypeCharset}
+                      />
+                      <DataField 
+                        label="link rel=canonical" 
+                        value={seoData.headers.linkCanonical} 
+                        isGood={!!seoData.headers.linkCanonical}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* robots.txt */}
+              {seoData.robots && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Bot className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">robots.txt</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {seoData.robots.availability}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {seoData.robots.warnings.length > 0 && (
+                      <div className="space-y-1">
+                        {seoData.robots.warnings.map((warning) => (
+                          <div key={warning} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+                            <AlertCircle className="h-3 w-3 text-orange-500" />
+                            {warning}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {seoData.robots.checks.map((check) => (
+                        <DataField
+                          key={check.userAgent}
+                          label={check.userAgent}
+                          value={`${check.allowed ? 'allowed' : 'disallowed'}${check.rule ? ` by ${check.rule.type}: ${check.rule.path}` : ''}${check.group ? ` (user-agent: ${check.group})` : ''}`}
+                          isGood={check.allowed}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-3 font-mono text-xs text-muted-foreground">
+                      <a href={seoData.robots.url} target="_blank" rel="noopener noreferrer" className="hover:text-foreground">
+                        {seoData.robots.url}
+                      </a>
+                      <span>status: {seoData.robots.status ?? 'error'}</span>
+                      <span>groups: {seoData.robots.groups}</span>
+                      <span>sitemaps: {seoData.robots.sitemaps.length}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Redirect Chain */}
+              {httpInfo && (
+                <Card className="border border-border bg-card">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <CornerDownRight className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm">Redirect Chain</span>
+                      </div>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {redirects.length} {redirects.length === 1 ? 'hop' : 'hops'}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {(httpInfo.redirectLoop || httpInfo.longRedirectChain) && (
+                      <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded font-mono text-xs text-destructive">
+                        <AlertCircle className="h-3 w-3" />
+                        {httpInfo.redirectLoop
+                          ? 'Redirect loop detected: the chain points back to a URL it already visited'
+                          : 'Redirect chain longer than one hop: link directly to the final URL'}
+                      </div>
+                    )}
+                    {redirects.length === 0 ? (
+                      <div className="flex items-center gap-2 font-mono text-xs text-muted-foreground">
+                        <CheckCircle className="h-3 w-3 text-green-500" />
+                        Served directly without redirects
+                      </div>
+                    ) : (
+                      <div className="space-y-2 font-mono text-xs">
+                        {redirects.map((hop, idx) => (
+                          <div key={idx} className="bg-muted/20 p-3 rounded border-l-2 border-l-primary/50">
+                            <div className="flex items-center gap-2 mb-1">
+                              <Badge variant="outline" className="font-mono text-xs">{hop.status}</Badge>
+                              <Badge variant="secondary" className="font-mono text-xs">{hop.kind}</Badge>
+                            </div>
+                            <div className="break-all text-foreground">{hop.url}</div>
+                            <div className="break-all text-muted-foreground">→ {hop.location}</div>
+                          </div>
+                        ))}
+                        <div className="bg-muted/20 p-3 rounded border-l-2 border-l-green-500/50">
+                          <div className="flex items-center gap-2 mb-1">
+                            <Badge variant="outline" className="font-mono text-xs">{httpInfo.status}</Badge>
+                          </div>
+                          <div className="break-all text-foreground">{httpInfo.finalUrl}</div>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Twitter Cards */}
-              {(seoData.twitterCard || seoData.twitterTitle || seoData.twitterDescription) && (
+              {(seoData.twitterCard || seoData.twitterTitle || seoData.twitterDescription || seoData.twitterSite) && (
                 <Card className="border border-border bg-card">
                   <CardHeader className="pb-3">
                     <div className="flex items-center gap-2">
                       <span className="font-mono text-sm">Twitter Cards</span>
                     </div>
                   </CardHeader>
-                  <CardContent>
+                  <CardContent className="space-y-4">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <DataField 
                         label="twitter:card" 
@@ -792,7 +1519,12 @@ const SEOTester = () => {
                         label="twitter:image" 
                         value={seoData.twitterImage || ''} 
                       />
+                      <DataField label="twitter:site" value={seoData.twitterSite || ''} />
+                      <DataField label="twitter:creator" value={seoData.twitterCreator || ''} />
                     </div>
+                    {seoData.twitter && (
+                      <SpecFindings errors={seoData.twitter.errors} warnings={seoData.twitter.warnings} />
+                    )}
                   </CardContent>
                 </Card>
               )}
@@ -819,10 +1551,10 @@ const SEOTester = () => {
                           <span className="text-xs text-gray-600">{new URL(seoData.url).hostname}</span>
                         </div>
                         <div className="text-blue-600 text-xl hover:underline cursor-pointer line-clamp-1">
-                          {seoData.title || 'No title found'}
+                          {seoData.serp?.title.desktopPreview || seoData.title || 'No title found'}
                         </div>
                         <div className="text-sm text-gray-600 line-clamp-2">
-                          {seoData.description || 'No meta description available'}
+                          {seoData.serp?.description.desktopPreview || seoData.description || 'No meta description available'}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,39 @@
+import { Badge } from '@/components/ui/badge';
+import type { SnippetLimits, SnippetTextAudit } from '@shared/seo/index.ts';
+
+interface SerpMetricsProps {
+  audit: SnippetTextAudit;
+  limits: SnippetLimits;
+}
+
+export const SerpMetrics = ({ audit, limits }: SerpMetricsProps) => {
+  if (!audit.text) return null;
+
+  const flag = (ok: boolean) => (ok ? 'border-green-500 text-green-500' : 'border-orange-500 text-orange-500');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="outline" className={`font-mono text-xs ${flag(!audit.tooShort && !audit.tooLong)}`}>
+          {audit.length}/{limits.minLength}-{limits.maxLength} chars
+        </Badge>
+        <Badge variant="outline" className={`font-mono text-xs ${flag(!audit.truncatedDesktop)}`}>
+          desktop {audit.pixelWidth}/{limits.desktopPx}px
+        </Badge>
+        <Badge variant="outline" className={`font-mono text-xs ${flag(!audit.truncatedMobile)}`}>
+          mobile {audit.pixelWidth}/{limits.mobilePx}px
+        </Badge>
+        {audit.duplicateWords.length > 0 && (
+          <Badge variant="outline" className={`font-mono text-xs ${flag(false)}`}>
+            repeated: {audit.duplicateWords.join(', ')}
+          </Badge>
+        )}
+      </div>
+      {audit.truncatedMobile && (
+        <div className="font-mono text-xs text-muted-foreground break-words">
+          <span className="text-primary">mobile:</span> {audit.mobilePreview}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { Badge } from '@/components/ui/badge';
+import { DuplicateClusters } from '@/components/DuplicateClusters';
+import type { SiteReport } from '@shared/seo/index.ts';
+
+interface SiteReportViewProps {
+  report: SiteReport;
+}
+
+const statusColor = (status: number | null) =>
+  status === null || status >= 400 ? 'text-red-500' : status >= 300 ? 'text-orange-500' : 'text-green-500';
+
+export const SiteReportView = ({ report }: SiteReportViewProps) => {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">pages</div>
+          <div className="text-xl font-bold">{report.pagesCrawled}{report.truncated && '+'}</div>
+        </div>
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">avg score</div>
+          <div className="text-xl font-bold text-primary">{report.averageScore}</div>
+        </div>
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">error pages</div>
+          <div className={`text-xl font-bold ${report.errorPages > 0 ? 'text-red-500' : ''}`}>{report.errorPages}</div>
+        </div>
+        <div className="p-3 bg-muted/20 rounded">
+          <div className="text-muted-foreground">issues</div>
+          <div className="text-sm">
+            <span className="text-red-500">{report.issueCounts.error}</span> /{' '}
+            <span className="text-orange-500">{report.issueCounts.warning}</span> /{' '}
+            <span className="text-blue-500">{report.issueCounts.notice}</span>
+          </div>
+        </div>
+      </div>
+
+      {report.truncated && (
+        <div className="p-2 bg-warning/10 rounded font-mono text-xs">
+          Page limit reached before every discovered URL was crawled
+        </div>
+      )}
+
+      {/* Reports stored before robots.txt support have no blockedByRobots */}
+      {report.blockedByRobots && report.blockedByRobots.length > 0 && (
+        <div className="p-2 bg-warning/10 rounded font-mono text-xs space-y-1">
+          <div>{report.blockedByRobots.length} URLs skipped, disallowed by robots.txt</div>
+          {report.blockedByRobots.slice(0, 5).map((url) => (
+            <div key={url} className="truncate text-muted-foreground">{url}</div>
+          ))}
+        </div>
+      )}
+
+      {report.topIssues.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-mono text-xs text-muted-foreground">most common issues</div>
+          <div className="flex flex-wrap gap-1">
+            {report.topIssues.slice(0, 10).map((issue) => (
+              <Badge key={issue.ruleId} variant="outline" className="font-mono text-xs">
+                {issue.ruleId} ({issue.severity}) × {issue.pages}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Reports stored before hreflang support have no hreflang */}
+      {report.hreflang && report.hreflang.missingReturnLinks.length > 0 && (
+        <div className="p-2 bg-warning/10 rounded font-mono text-xs space-y-1">
+          <div>
+            {report.hreflang.missingReturnLinks.length} of {report.hreflang.checked} hreflang links have no return link
+          </div>
+          {report.hreflang.missingReturnLinks.slice(0, 10).map((link) => (
+            <div key={`${link.from}:${link.to}`} className="truncate text-muted-foreground">
+              {link.from} → {link.to} ({link.hreflang})
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Reports stored before duplicate detection have no duplicates */}
+      {report.duplicates && <DuplicateClusters duplicates={report.duplicates} />}
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="text-muted-foreground text-left border-b border-border">
+              <th className="py-2 pr-3 font-normal">url</th>
+              <th className="py-2 pr-3 font-normal">depth</th>
+              <th className="py-2 pr-3 font-normal">status</th>
+              <th className="py-2 pr-3 font-normal">score</th>
+              <th className="py-2 font-normal">e/w/n</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.pages.map((page) => (
+              <tr key={page.url} className="border-b border-border/50 align-top">
+                <td className="py-2 pr-3 break-all">
+                  <div className="text-foreground">{page.url}</div>
+                  {page.error ? (
+                    <div className="text-red-500">{page.error}</div>
+                  ) : (
+                    <div className="text-muted-foreground">{page.title || '❌ no title'}</div>
+                  )}
+                </td>
+                <td className="py-2 pr-3">{page.depth}</td>
+                <td className={`py-2 pr-3 ${statusColor(page.status)}`}>{page.status ?? 'ERR'}</td>
+                <td className="py-2 pr-3 text-primary">{page.score ?? '—'}</td>
+                <td className="py-2 whitespace-nowrap">
+                  {page.issueCounts.error}/{page.issueCounts.warning}/{page.issueCounts.notice}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { SitemapReport, SitemapUrlCheck } from '@shared/seo/index.ts';
+import { AlertCircle } from 'lucide-react';
+
+interface SitemapReportViewProps {
+  report: SitemapReport;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
+
+const CheckFlags = ({ check }: { check: SitemapUrlCheck }) => {
+  if (check.error) return <span className="text-red-500">{check.error}</span>;
+  const flags = [
+    check.noindex && 'noindex',
+    check.nonCanonical && 'non-canonical',
+    check.redirected && 'redirects',
+    check.status !== null && check.status >= 400 && `HTTP ${check.status}`,
+  ].filter((flag): flag is string => !!flag);
+  if (flags.length === 0) return <span className="text-green-500">indexable</span>;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {flags.map((flag) => (
+        <Badge key={flag} variant="outline" className="font-mono text-xs border-red-500/50 text-red-500">
+          {flag}
+        </Badge>
+      ))}
+    </span>
+  );
+};
+
+export const SitemapReportView = ({ report }: SitemapReportViewProps) => {
+  const flagged = report.checks.filter((check) => check.error || check.noindex || check.nonCanonical || check.redirected);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono text-xs">
+        <div className="p-2 bg-muted/20 rounded">source: {report.source}</div>
+        <div className="p-2 bg-muted/20 rounded">files: {report.sitemaps.length}</div>
+        <div className="p-2 bg-muted/20 rounded">urls: {report.totalUrls}</div>
+        <div className={`p-2 rounded ${report.invalidLastmod ? 'bg-warning/10' : 'bg-muted/20'}`}>
+          invalid lastmod: {report.invalidLastmod}
+        </div>
+      </div>
+
+      {report.warnings.map((warning) => (
+        <div key={warning} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+          <AlertCircle className="h-3 w-3 text-orange-500" />
+          {warning}
+        </div>
+      ))}
+
+      {/* Sitemap files */}
+      <div className="space-y-2">
+        {report.sitemaps.map((sitemap) => (
+          <div key={sitemap.url} className="p-2 bg-muted/20 rounded font-mono text-xs space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={`font-mono text-xs ${sitemap.type === 'invalid' ? 'text-red-500' : ''}`}>
+                {sitemap.type}
+              </Badge>
+              <span className="truncate text-foreground">{sitemap.url}</span>
+              <span className="text-muted-foreground">
+                {sitemap.entryCount} entries · {formatBytes(sitemap.bytes)}{sitemap.gzipped && ' · gzip'}
+              </span>
+            </div>
+            {sitemap.errors.map((message) => (
+              <div key={message} className="text-red-500">✗ {message}</div>
+            ))}
+            {sitemap.warnings.map((message) => (
+              <div key={message} className="text-orange-500">! {message}</div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Checked URLs */}
+      {report.checks.length > 0 && (
+        <div className="space-y-2">
+          <div className="font-mono text-xs text-muted-foreground">
+            {report.checks.length} URLs analyzed, {flagged.length} should not be in the sitemap
+          </div>
+          <Table className="font-mono text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>url</TableHead>
+                <TableHead>status</TableHead>
+                <TableHead>result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.checks.map((check) => (
+                <TableRow key={check.url}>
+                  <TableCell className="max-w-xs truncate" title={check.canonical ? `canonical: ${check.canonical}` : undefined}>
+                    {check.url}
+                  </TableCell>
+                  <TableCell>{check.status ?? '-'}</TableCell>
+                  <TableCell><CheckFlags check={check} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
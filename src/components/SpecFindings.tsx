@@ -0,0 +1,26 @@
+import { AlertCircle } from 'lucide-react';
+
+interface SpecFindingsProps {
+  errors: string[];
+  warnings: string[];
+}
+
+export const SpecFindings = ({ errors, warnings }: SpecFindingsProps) => {
+  if (errors.length === 0 && warnings.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      {errors.map((error, idx) => (
+        <div key={`e${idx}`} className="flex items-center gap-2 p-2 bg-destructive/10 text-destructive rounded font-mono text-xs">
+          <AlertCircle className="h-3 w-3" />
+          {error}
+        </div>
+      ))}
+      {warnings.map((warning, idx) => (
+        <div key={`w${idx}`} className="flex items-center gap-2 p-2 bg-warning/10 rounded font-mono text-xs">
+          <AlertCircle className="h-3 w-3 text-orange-500" />
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+};
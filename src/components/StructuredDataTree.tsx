@@ -0,0 +1,99 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import type { StructuredDataItem } from '@shared/seo/index.ts';
+
+const JsonNode = ({ name, value }: { name?: string; value: unknown }) => {
+  const label = name !== undefined && <span className="text-primary">{name}: </span>;
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value)
+      ? value.map((child, idx) => [String(idx), child] as const)
+      : Object.entries(value);
+    const type = !Array.isArray(value) && (value as Record<string, unknown>)['@type'];
+    return (
+      <details open className="ml-3">
+        <summary className="cursor-pointer">
+          {label}
+          <span className="text-muted-foreground">
+            {Array.isArray(value) ? `[${entries.length}]` : typeof type === 'string' ? type : '{…}'}
+          </span>
+        </summary>
+        <div className="border-l border-border pl-2">
+          {entries.map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} />
+          ))}
+        </div>
+      </details>
+    );
+  }
+
+  return (
+    <div className="ml-3 break-all">
+      {label}
+      <span className="text-foreground">{JSON.stringify(value)}</span>
+    </div>
+  );
+};
+
+export const StructuredDataTree = ({ item }: { item: StructuredDataItem }) => {
+  const problems = item.validations.filter(
+    (validation) => validation.missingRequired.length > 0 || validation.missingRecommended.length > 0
+  );
+
+  return (
+    <div className="bg-muted/20 p-3 rounded space-y-2 font-mono text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="font-mono text-xs">{item.format}</Badge>
+        {item.types.map((type) => (
+          <Badge key={type} variant="secondary" className="font-mono text-xs">{type}</Badge>
+        ))}
+      </div>
+
+      {item.error && (
+        <div className="flex items-start gap-2 p-2 bg-destructive/10 rounded text-destructive">
+          <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>
+            {item.error.line !== undefined && `line ${item.error.line}, column ${item.error.column}: `}
+            {item.error.message}
+          </span>
+        </div>
+      )}
+
+      {problems.map((validation, idx) => (
+        <div key={idx} className="space-y-1">
+          {validation.missingRequired.length > 0 && (
+            <div className="flex items-start gap-2 p-2 bg-destructive/10 rounded text-destructive">
+              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+              <span>
+                {validation.type} ({validation.path || 'root'}) missing required: {validation.missingRequired.join(', ')}
+              </span>
+            </div>
+          )}
+          {validation.missingRecommended.length > 0 && (
+            <div className="flex items-start gap-2 p-2 bg-warning/10 rounded">
+              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0 text-orange-500" />
+              <span>
+                {validation.type} ({validation.path || 'root'}) missing recommended: {validation.missingRecommended.join(', ')}
+              </span>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {!item.error && item.validations.length > 0 && problems.length === 0 && (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <CheckCircle className="h-3 w-3 text-green-500" />
+          All required and recommended properties present
+        </div>
+      )}
+
+      <div className="max-h-72 overflow-auto -ml-3">
+        {item.error ? (
+          <pre className="ml-3 whitespace-pre-wrap break-all">{String(item.data)}</pre>
+        ) : (
+          <JsonNode value={item.data} />
+        )}
+      </div>
+    </div>
+  );
+};
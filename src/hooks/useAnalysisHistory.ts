@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchAnalysis, fetchRecentAnalyses, fetchUrlHistory } from '@/lib/history';
+
+export const ANALYSIS_HISTORY_KEY = ['analyses', 'recent'] as const;
+
+// Recent runs from every browser and teammate, newest first
+export function useAnalysisHistory(limit = 20) {
+  return useQuery({
+    queryKey: [...ANALYSIS_HISTORY_KEY, limit],
+    queryFn: () => fetchRecentAnalyses(limit),
+  });
+}
+
+// Score trend of a single URL, oldest run first
+export function useUrlHistory(url: string) {
+  return useQuery({
+    queryKey: ['analyses', 'url', url],
+    queryFn: () => fetchUrlHistory(url),
+    enabled: !!url,
+  });
+}
+
+export function useStoredAnalysis(id: string | null) {
+  return useQuery({
+    queryKey: ['analyses', 'id', id],
+    queryFn: () => fetchAnalysis(id as string),
+    enabled: !!id,
+  });
+}
@@ -14,7 +14,145 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analyses: {
+        Row: {
+          crawl_job_id: string | null
+          created_at: string
+          data: Json
+          final_url: string | null
+          http: Json | null
+          id: string
+          profile: string
+          redirects: Json
+          score: Json
+          total_score: number
+          url: string
+        }
+        Insert: {
+          crawl_job_id?: string | null
+          created_at?: string
+          data: Json
+          final_url?: string | null
+          http?: Json | null
+          id?: string
+          profile?: string
+          redirects?: Json
+          score: Json
+          total_score: number
+          url: string
+        }
+        Update: {
+          crawl_job_id?: string | null
+          created_at?: string
+          data?: Json
+          final_url?: string | null
+          http?: Json | null
+          id?: string
+          profile?: string
+          redirects?: Json
+          score?: Json
+          total_score?: number
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analyses_crawl_job_id_fkey"
+            columns: ["crawl_job_id"]
+            isOneToOne: false
+            referencedRelation: "crawl_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_issues: {
+        Row: {
+          analysis_id: string
+          category: string
+          created_at: string
+          expected: string
+          fix: string
+          id: string
+          message: string
+          observed: string
+          position: number
+          rule_id: string
+          selector: string
+          severity: string
+        }
+        Insert: {
+          analysis_id: string
+          category: string
+          created_at?: string
+          expected?: string
+          fix?: string
+          id?: string
+          message: string
+          observed?: string
+          position: number
+          rule_id: string
+          selector?: string
+          severity: string
+        }
+        Update: {
+          analysis_id?: string
+          category?: string
+          created_at?: string
+          expected?: string
+          fix?: string
+          id?: string
+          message?: string
+          observed?: string
+          position?: number
+          rule_id?: string
+          selector?: string
+          severity?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_issues_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crawl_jobs: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          options: Json
+          pages_crawled: number
+          report: Json | null
+          start_url: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          options: Json
+          pages_crawled?: number
+          report?: Json | null
+          start_url: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          options?: Json
+          pages_crawled?: number
+          report?: Json | null
+          start_url?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
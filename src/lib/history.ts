@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type {
+  HttpInfo,
+  RedirectHop,
+  RuleSeverity,
+  ScoreCategory,
+  SEOAnalysis,
+  SEOData,
+  SEOIssue,
+  SEOScore,
+} from '@shared/seo/index.ts';
+
+export type AnalysisSummary = Pick<Tables<'analyses'>, 'id' | 'url' | 'total_score' | 'profile' | 'created_at'>;
+
+export interface ScorePoint {
+  id: string;
+  createdAt: string;
+  profile: string;
+  // Scored with a target keyword, which adds the keyword rules to the total
+  keyword: boolean;
+  total: number;
+  breakdown: Record<ScoreCategory, number>;
+  max: Record<ScoreCategory, number>;
+}
+
+export interface StoredAnalysis extends SEOAnalysis {
+  id: string;
+  url: string;
+  createdAt: string;
+}
+
+const SUMMARY_COLUMNS = 'id, url, total_score, profile, created_at';
+
+const toIssue = (row: Tables<'analysis_issues'>): SEOIssue => ({
+  ruleId: row.rule_id,
+  severity: row.severity as RuleSeverity,
+  category: row.category as ScoreCategory,
+  message: row.message,
+  selector: row.selector,
+  observed: row.observed,
+  expected: row.expected,
+  fix: row.fix,
+});
+
+// The jsonb columns hold the shared result types exactly as the edge function returned them
+const toAnalysis = (row: Tables<'analyses'>, issues: Tables<'analysis_issues'>[]): StoredAnalysis => ({
+  id: row.id,
+  url: row.url,
+  createdAt: row.created_at,
+  data: row.data as unknown as SEOData,
+  score: row.score as unknown as SEOScore,
+  http: (row.http as unknown as HttpInfo | null) ?? undefined,
+  redirects: row.redirects as unknown as RedirectHop[],
+  issues: issues.map(toIssue),
+});
+
+export const fetchRecentAnalyses = async (limit = 20): Promise<AnalysisSummary[]> => {
+  const { data, error } = await supabase
+    .from('analyses')
+    .select(SUMMARY_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data;
+};
+
+export const fetchAnalysis = async (id: string): Promise<StoredAnalysis> => {
+  const [{ data: row, error }, { data: issues, error: issuesError }] = await Promise.all([
+    supabase.from('analyses').select('*').eq('id', id).single(),
+    supabase.from('analysis_issues').select('*').eq('analysis_id', id).order('position'),
+  ]);
+  if (error) throw error;
+  if (issuesError) throw issuesError;
+  return toAnalysis(row, issues);
+};
+
+// Oldest first so the runs read left to right on a chart
+export const fetchUrlHistory = async (url: string, limit = 100): Promise<ScorePoint[]> => {
+  const { data, error } = await supabase
+    .from('analyses')
+    .select('id, created_at, profile, total_score, score')
+    .eq('url', url)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data.reverse().map((row) => {
+    const score = row.score as unknown as SEOScore;
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      profile: row.profile,
+      // Runs stored before keyword scoring have no keyword category at all
+      keyword: (score.max.keyword ?? 0) > 0,
+      total: row.total_score,
+      breakdown: score.breakdown,
+      max: score.max,
+    };
+  });
+};
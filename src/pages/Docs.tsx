@@ -7,6 +7,7 @@ import { Code, Terminal, Book, ChevronRight, Copy, Check, Home, AlertTriangle, Z
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'react-router-dom';
 import { APIPlayground } from '@/components/APIPlayground';
+import { SEO_RULES, SCORING_PROFILES } from '@shared/seo/index.ts';
 
 const Docs = () => {
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
@@ -138,6 +139,25 @@ const Docs = () => {
 }`}
                 </pre>
               </div>
+
+              <div>
+                <div className="text-xs font-mono text-muted-foreground mb-2">OPTIONAL FIELDS</div>
+                <div className="space-y-2 text-sm">
+                  <div className="flex gap-2"><code className="text-primary">userAgent</code><span className="text-muted-foreground">string - User-Agent sent to the target (default: SEOInspector)</span></div>
+                  <div className="flex gap-2"><code className="text-primary">timeout</code><span className="text-muted-foreground">number - Fetch timeout in ms (default 10000, max 30000)</span></div>
+                  <div className="flex gap-2"><code className="text-primary">maxBodySize</code><span className="text-muted-foreground">number - Max bytes of HTML to read (default 5MB, max 10MB)</span></div>
+                  <div className="flex gap-2"><code className="text-primary">followRedirects</code><span className="text-muted-foreground">boolean - Follow 3xx responses (default true)</span></div>
+                  <div className="flex gap-2"><code className="text-primary">profile</code><span className="text-muted-foreground">string - Scoring profile: {Object.keys(SCORING_PROFILES).join(', ')} (default: default)</span></div>
+                  <div className="flex gap-2"><code className="text-primary">weights</code><span className="text-muted-foreground">object - Per-rule weight overrides, e.g. {'{"og-image": 20, "hsts": 0}'}; unknown rule ids return 400</span></div>
+                  <div className="flex gap-2"><code className="text-primary">checkLinks</code><span className="text-muted-foreground">boolean - Request every internal/external link (HEAD, falling back to GET) and report broken ones; single URL only, up to 100 links</span></div>
+                  <div className="flex gap-2"><code className="text-primary">sitemap</code><span className="text-muted-foreground">boolean - Find sitemaps via robots.txt Sitemap lines or /sitemap.xml, follow indexes (gzip included), validate lastmod and entry counts, and analyze the first listed URLs for noindex and non-canonical pages</span></div>
+                  <div className="flex gap-2"><code className="text-primary">sitemapLimit</code><span className="text-muted-foreground">number - Sitemap URLs to analyze (default 10, max 25)</span></div>
+                  <div className="flex gap-2"><code className="text-primary">seedBatch</code><span className="text-muted-foreground">boolean - With sitemap, store the analyzed URLs and return them as sitemapResults in the batch result format</span></div>
+                  <div className="flex gap-2"><code className="text-primary">targetKeyword</code><span className="text-muted-foreground">string - Phrase the page should rank for; adds data.keyword and scores the keyword category (results are not cached). Must contain at least one letter or digit</span></div>
+                  <div className="flex gap-2"><code className="text-primary">render</code><span className="text-muted-foreground">boolean - Also run the page through a headless renderer and analyze the DOM after JavaScript; the server needs RENDERER_URL (or RENDERER=static for a no-JavaScript stand-in), otherwise 501</span></div>
+                  <div className="flex gap-2"><code className="text-primary">html</code><span className="text-muted-foreground">string - Markup to analyze instead of fetching url (see Raw HTML below)</span></div>
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -175,11 +195,64 @@ const Docs = () => {
   "score": {
     "total": 85,
     "breakdown": {
-      "basic": 35,
-      "social": 30,
-      "technical": 20
+      "basic": 33,
+      "social": 22,
+      "technical": 25,
+      "images": 5,
+      "keyword": 0
+    },
+    "max": {
+      "basic": 33,
+      "social": 22,
+      "technical": 35,
+      "images": 10,
+      "keyword": 0
+    },
+    "profile": "default",
+    "rules": [
+      {
+        "id": "title-present",
+        "category": "basic",
+        "severity": "error",
+        "status": "pass",
+        "weight": 13,
+        "points": 13,
+        "message": "Title fits search results"
+      }
+    ]
+  },
+  "issues": [
+    {
+      "ruleId": "image-alt",
+      "severity": "notice",
+      "category": "images",
+      "message": "1 of 2 images have no alt attribute",
+      "selector": "img[src='https://example.com/hero.png']",
+      "observed": "1 of 2 compliant",
+      "expected": "An alt attribute on every image (empty for decorative ones)",
+      "fix": "Add alt text describing each image, or an empty alt when it is purely decorative."
+    }
+  ],
+  "http": {
+    "status": 200,
+    "statusText": "OK",
+    "contentType": "text/html; charset=utf-8",
+    "finalUrl": "https://example.com/",
+    "bytes": 1256,
+    "truncated": false,
+    "durationMs": 412,
+    "redirectCount": 1,
+    "longRedirectChain": false,
+    "redirectLoop": false
+  },
+  "redirects": [
+    {
+      "url": "http://example.com/",
+      "status": 301,
+      "location": "https://example.com/",
+      "kind": "https"
     }
-  }
+  ]
 }`, 'response')}
                 >
                   {copiedSection === 'response' ? (
@@ -210,16 +283,85 @@ const Docs = () => {
     "viewport": "width=device-width, initial-scale=1",
     "charset": "UTF-8",
     "metaRobots": "index,follow",
-    "url": "https://example.com"
+    "url": "https://example.com",
+    "headers": {
+      "xRobotsTag": "",
+      "noindex": false,
+      "nofollow": false,
+      "cacheControl": "max-age=600",
+      "etag": "",
+      "lastModified": "Thu, 17 Oct 2024 07:18:26 GMT",
+      "cacheable": true,
+      "contentEncoding": "gzip",
+      "compressed": true,
+      "strictTransportSecurity": "max-age=31536000",
+      "hstsMaxAge": 31536000,
+      "contentTypeCharset": "utf-8",
+      "linkCanonical": "",
+      "warnings": []
+    }
   },
   "score": {
     "total": 85,
     "breakdown": {
-      "basic": 35,
-      "social": 30,
-      "technical": 20
+      "basic": 33,
+      "social": 22,
+      "technical": 25,
+      "images": 5,
+      "keyword": 0
+    },
+    "max": {
+      "basic": 33,
+      "social": 22,
+      "technical": 35,
+      "images": 10,
+      "keyword": 0
+    },
+    "profile": "default",
+    "rules": [
+      {
+        "id": "title-present",
+        "category": "basic",
+        "severity": "error",
+        "status": "pass",
+        "weight": 13,
+        "points": 13,
+        "message": "Title fits search results"
+      }
+    ]
+  },
+  "issues": [
+    {
+      "ruleId": "image-alt",
+      "severity": "notice",
+      "category": "images",
+      "message": "1 of 2 images have no alt attribute",
+      "selector": "img[src='https://example.com/hero.png']",
+      "observed": "1 of 2 compliant",
+      "expected": "An alt attribute on every image (empty for decorative ones)",
+      "fix": "Add alt text describing each image, or an empty alt when it is purely decorative."
+    }
+  ],
+  "http": {
+    "status": 200,
+    "statusText": "OK",
+    "contentType": "text/html; charset=utf-8",
+    "finalUrl": "https://example.com/",
+    "bytes": 1256,
+    "truncated": false,
+    "durationMs": 412,
+    "redirectCount": 1,
+    "longRedirectChain": false,
+    "redirectLoop": false
+  },
+  "redirects": [
+    {
+      "url": "http://example.com/",
+      "status": 301,
+      "location": "https://example.com/",
+      "kind": "https"
     }
-  }
+  ]
 }`}
               </pre>
             </CardContent>
@@ -238,6 +380,56 @@ const Docs = () => {
             </CardContent>
           </Card>
 
+          {/* Raw HTML */}
+          <Card className="mb-6 border border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <ChevronRight className="h-4 w-4 text-primary" />
+                <span className="font-mono text-sm">Raw HTML</span>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                For pages the function cannot reach (e.g. staging behind a VPN), post the rendered markup with the page
+                <code className="text-primary"> url</code>, which resolves relative links, images and canonicals. The response has the same
+                data, score and issues, but no <code className="text-primary">http</code>, <code className="text-primary">redirects</code>,
+                response header or robots.txt audit, so those rules report n/a and are left out of the score. HTML files can also be uploaded as
+                <code className="text-primary"> multipart/form-data</code> with a <code className="text-primary">file</code> field; other fields are sent as form fields.
+              </p>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-mono text-muted-foreground">HTML REQUEST</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => copyToClipboard('{\n  "url": "https://staging.example.com/pricing",\n  "html": "<!DOCTYPE html><html>...</html>"\n}', 'html')}
+                  >
+                    {copiedSection === 'html' ? (
+                      <Check className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+                <pre className="bg-muted/30 p-4 rounded font-mono text-sm border border-border/50 overflow-x-auto">
+{`{
+  "url": "https://staging.example.com/pricing",
+  "html": "<!DOCTYPE html><html>...</html>"
+}`}
+                </pre>
+              </div>
+              <div>
+                <div className="text-xs font-mono text-muted-foreground mb-2">FILE UPLOAD</div>
+                <pre className="bg-muted/30 p-4 rounded font-mono text-sm border border-border/50 overflow-x-auto">
+{`curl -X POST '${apiUrl}' \\
+  -F 'url=https://staging.example.com/pricing' \\
+  -F 'profile=content' \\
+  -F 'file=@pricing.html'`}
+                </pre>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Batch Analysis */}
           <Card className="mb-6 border border-border bg-card">
             <CardHeader className="pb-3">
@@ -247,7 +439,12 @@ const Docs = () => {
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
-              <p className="text-sm text-muted-foreground">Analyze multiple URLs in a single request (max 5 URLs):</p>
+              <p className="text-sm text-muted-foreground">
+                Analyze multiple URLs in a single request (max 5 URLs). Alongside <code className="text-primary">results</code>, the response
+                has <code className="text-primary">duplicates</code>: clusters of pages sharing a title, meta description or h1, and
+                near-duplicate clusters whose body text simhash fingerprints differ in at most 6 of 64 bits. <code className="text-primary">hreflang</code> lists
+                alternate links between the analyzed pages that the target page does not link back to.
+              </p>
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-xs font-mono text-muted-foreground">BATCH REQUEST</span>
@@ -275,6 +472,102 @@ const Docs = () => {
             </CardContent>
           </Card>
 
+          {/* Compare */}
+          <Card className="mb-6 border border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <ChevronRight className="h-4 w-4 text-primary" />
+                <span className="font-mono text-sm">Compare Snapshots</span>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Diff two analyses. Each side is a stored analysis id (the <code className="text-primary">id</code> of an earlier response) or a URL
+                to analyze now, so staging can be checked against production. Stored runs are re-scored with the requested profile.
+              </p>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-mono text-muted-foreground">COMPARE REQUEST</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => copyToClipboard('{\n  "action": "compare",\n  "before": "https://example.com",\n  "after": "https://staging.example.com"\n}', 'compare')}
+                  >
+                    {copiedSection === 'compare' ? (
+                      <Check className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+                <pre className="bg-muted/30 p-4 rounded font-mono text-sm border border-border/50 overflow-x-auto">
+{`{
+  "action": "compare",
+  "before": "https://example.com",
+  "after": "https://staging.example.com"
+}`}
+                </pre>
+              </div>
+              <div className="space-y-2 text-sm">
+                <div className="flex gap-2"><code className="text-primary">before / after</code><span className="text-muted-foreground">object - Both analyses, each with its url</span></div>
+                <div className="flex gap-2"><code className="text-primary">comparison.fieldChanges</code><span className="text-muted-foreground">array - Changed fields with before and after values (tags, audit counts, headers, HTTP status)</span></div>
+                <div className="flex gap-2"><code className="text-primary">comparison.newlyFailing</code><span className="text-muted-foreground">array - Rules that passed before and no longer do</span></div>
+                <div className="flex gap-2"><code className="text-primary">comparison.newlyPassing</code><span className="text-muted-foreground">array - Rules that did not pass before and now do</span></div>
+                <div className="flex gap-2"><code className="text-primary">comparison.statusChanges</code><span className="text-muted-foreground">array - Rules still not passing whose status moved between warn and fail</span></div>
+                <div className="flex gap-2"><code className="text-primary">comparison.scoreDelta</code><span className="text-muted-foreground">object - Change of the total and of each category (after minus before)</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Site Crawl */}
+          <Card className="mb-6 border border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <ChevronRight className="h-4 w-4 text-primary" />
+                <span className="font-mono text-sm">Site Crawl</span>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Crawls run in the background on the <code className="text-primary">crawl-site</code> function. Starting one returns
+                202 with a <code className="text-primary">jobId</code>; poll with <code className="text-primary">{'{"jobId": "..."}'}</code> (or GET <code className="text-primary">?jobId=...</code>)
+                until <code className="text-primary">job.status</code> is completed or failed. A job that has not progressed for three minutes is reported as failed, since its worker was stopped.
+                <code className="text-primary">profile</code>, <code className="text-primary">weights</code> and <code className="text-primary">targetKeyword</code> score every crawled page as they would a single analysis. Internal links are followed breadth-first; nofollow links and non-HTML files are skipped, and URLs robots.txt disallows for the crawler's user agent are listed in <code className="text-primary">report.blockedByRobots</code> instead of being fetched. The report groups duplicate titles, descriptions, h1s and near-duplicate content in <code className="text-primary">report.duplicates</code>, like a batch response, and missing hreflang return links in <code className="text-primary">report.hreflang</code>.
+              </p>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-mono text-muted-foreground">CRAWL REQUEST</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => copyToClipboard('{\n  "url": "https://example.com",\n  "maxDepth": 2,\n  "maxPages": 25,\n  "include": ["/blog/*"],\n  "exclude": ["*?page=*"]\n}', 'crawl')}
+                  >
+                    {copiedSection === 'crawl' ? (
+                      <Check className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+                <pre className="bg-muted/30 p-4 rounded font-mono text-sm border border-border/50 overflow-x-auto">
+{`{
+  "url": "https://example.com",
+  "maxDepth": 2,
+  "maxPages": 25,
+  "include": ["/blog/*"],
+  "exclude": ["*?page=*"]
+}`}
+                </pre>
+              </div>
+              <div className="space-y-2 text-sm">
+                <div className="flex gap-2"><code className="text-primary">maxDepth</code><span className="text-muted-foreground">number - Link hops from the start URL (default: 2, max: 5)</span></div>
+                <div className="flex gap-2"><code className="text-primary">maxPages</code><span className="text-muted-foreground">number - Pages to analyze (default: 25, max: 100)</span></div>
+                <div className="flex gap-2"><code className="text-primary">include / exclude</code><span className="text-muted-foreground">string[] - Globs matched against path and query; * matches anything</span></div>
+                <div className="flex gap-2"><code className="text-primary">job.report</code><span className="text-muted-foreground">object - Site report: pages with status, score and issue counts, average score, most common issues, error pages</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Response Schema */}
           <Card className="mb-6 border border-border bg-card">
             <CardHeader className="pb-3">
@@ -287,11 +580,81 @@ const Docs = () => {
               <div className="space-y-2 text-sm">
                 <div className="flex gap-2"><code className="text-primary">success</code><span className="text-muted-foreground">boolean - Analysis success status</span></div>
                 <div className="flex gap-2"><code className="text-primary">cached</code><span className="text-muted-foreground">boolean - Whether result was cached</span></div>
+                <div className="flex gap-2"><code className="text-primary">id</code><span className="text-muted-foreground">string - Id of the stored run in the analyses table (omitted when history storage is unavailable)</span></div>
                 <div className="flex gap-2"><code className="text-primary">data.title</code><span className="text-muted-foreground">string - Page title tag</span></div>
                 <div className="flex gap-2"><code className="text-primary">data.description</code><span className="text-muted-foreground">string - Meta description</span></div>
                 <div className="flex gap-2"><code className="text-primary">data.ogImage</code><span className="text-muted-foreground">string - Open Graph image URL</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.headings</code><span className="text-muted-foreground">object - Nested h1-h6 outline, per-level counts and warnings (multiple h1, skipped levels, empty or over-long headings)</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.images</code><span className="text-muted-foreground">object - Every img with src, alt, width/height, loading, srcset and extension, plus missing alt/dimension counts</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.links</code><span className="text-muted-foreground">object - Every a[href] with type (internal, external, anchor, mailto, tel), rel flags and anchor text, plus aggregate counts</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.structuredData</code><span className="text-muted-foreground">object - Parsed JSON-LD, microdata and RDFa blocks with @types, JSON syntax errors (line/column) and schema.org property validation</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.serp</code><span className="text-muted-foreground">object - Title and description length, estimated SERP pixel width, desktop/mobile truncation with previews and repeated words</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.headers</code><span className="text-muted-foreground">object - Audit of X-Robots-Tag, caching, compression, HSTS, charset and Link canonical headers</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.contentHash</code><span className="text-muted-foreground">string - 64-bit simhash of the visible body text (16 hex digits), used to find near-duplicate pages; absent under 20 words</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.hreflang</code><span className="text-muted-foreground">object - Every link rel=alternate hreflang entry with code validation (ISO 639-1 language, ISO 3166-1 region), plus self-reference, x-default and conflicting-code checks</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.content</code><span className="text-muted-foreground">object - Main content (navigation, header, footer and asides stripped): word, paragraph and sentence counts, Flesch reading ease and grade level for English pages, text-to-HTML ratio and a thin flag below 300 words</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.openGraph</code><span className="text-muted-foreground">object - Every og:* and type namespace property (article:*, video:*, ...), og:image entries with their width, height and alt, spec errors (missing og:title/og:type/og:image/og:url, unknown og:type, relative URLs) and warnings, and whether og:url differs from the canonical</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.twitter</code><span className="text-muted-foreground">object - Every twitter:* property with errors for invalid card types, missing player/app properties and relative image URLs, and warnings for handles that are not @usernames</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.keyword</code><span className="text-muted-foreground">object - Only with targetKeyword: whether and at which word the phrase appears in the title, description, h1, URL slug and first paragraph of the main content, subheading and image alt counts, body occurrences and density, and the top 1-3 word phrases in the body</span></div>
+                <div className="flex gap-2"><code className="text-primary">data.robots</code><span className="text-muted-foreground">object - robots.txt of the page's origin: availability (found, missing, server-error, unreachable) and whether Googlebot, Bingbot and the request's user agent may crawl the URL, with the deciding Allow/Disallow rule</span></div>
                 <div className="flex gap-2"><code className="text-primary">score.total</code><span className="text-muted-foreground">number - Overall SEO score (0-100)</span></div>
-                <div className="flex gap-2"><code className="text-primary">score.breakdown</code><span className="text-muted-foreground">object - Score breakdown by category</span></div>
+                <div className="flex gap-2"><code className="text-primary">score.breakdown</code><span className="text-muted-foreground">object - Points earned per category (basic, social, technical, images, and keyword, which is 0 without targetKeyword)</span></div>
+                <div className="flex gap-2"><code className="text-primary">score.max</code><span className="text-muted-foreground">object - Points available per category under the profile used</span></div>
+                <div className="flex gap-2"><code className="text-primary">score.rules</code><span className="text-muted-foreground">array - Every scoring rule with status (pass, warn, fail, or n/a when there was nothing to check, e.g. keyword rules without targetKeyword; n/a rules weigh 0), weight, points and message</span></div>
+                <div className="flex gap-2"><code className="text-primary">issues</code><span className="text-muted-foreground">array - Failing and partially passing rules, most urgent first, with severity, selector, observed value, expected value and fix</span></div>
+                <div className="flex gap-2"><code className="text-primary">linkCheck</code><span className="text-muted-foreground">object - Only with checkLinks: per-link status, redirect and timeout results plus broken/redirected/timed-out counts</span></div>
+                <div className="flex gap-2"><code className="text-primary">sitemap</code><span className="text-muted-foreground">object - Only with sitemap: source, each sitemap file with type, entry count, errors and warnings, total and invalid-lastmod URL counts, and per-URL checks flagging noindex, non-canonical and redirecting entries</span></div>
+                <div className="flex gap-2"><code className="text-primary">render</code><span className="text-muted-foreground">object - Only with render: renderer name, render time, raw-markup score and a comparison of raw against rendered metadata; onlyRendered lists fields that crawlers running no JavaScript miss. data and score then describe the rendered DOM</span></div>
+                <div className="flex gap-2"><code className="text-primary">http.status</code><span className="text-muted-foreground">number - HTTP status code returned by the target</span></div>
+                <div className="flex gap-2"><code className="text-primary">http.finalUrl</code><span className="text-muted-foreground">string - URL the page was served from after redirects</span></div>
+                <div className="flex gap-2"><code className="text-primary">http.contentType</code><span className="text-muted-foreground">string - Content-Type header of the final response</span></div>
+                <div className="flex gap-2"><code className="text-primary">redirects</code><span className="text-muted-foreground">array - Each redirect hop with url, status, location and kind (https, www, trailing-slash, host, other)</span></div>
+                <div className="flex gap-2"><code className="text-primary">http.longRedirectChain</code><span className="text-muted-foreground">boolean - More than one redirect before the final URL</span></div>
+                <div className="flex gap-2"><code className="text-primary">http.redirectLoop</code><span className="text-muted-foreground">boolean - A redirect pointed back to a URL already in the chain</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Scoring Rules */}
+          <Card className="mb-6 border border-border bg-card">
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <ChevronRight className="h-4 w-4 text-primary" />
+                <span className="font-mono text-sm">Scoring Rules</span>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The total score is the share of weighted points earned, normalized to 0-100. A passing rule earns its full weight,
+                a warning half of it. Pick a preset with <code className="text-primary">profile</code> or override single rules with <code className="text-primary">weights</code>.
+                The keyword rules only carry weight when the request sets <code className="text-primary">targetKeyword</code>.
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Every rule that does not pass is also listed in <code className="text-primary">issues</code>. A partial pass is reported one
+                severity lower. To gate a deploy, fail the build when any issue has <code className="text-primary">severity: "error"</code>.
+              </p>
+              <div className="space-y-1 text-sm font-mono">
+                {SEO_RULES.map((rule) => (
+                  <div key={rule.id} className="flex gap-2">
+                    <code className="text-primary w-44 shrink-0">{rule.id}</code>
+                    <span className="text-muted-foreground w-24 shrink-0">{rule.category}</span>
+                    <span className="text-muted-foreground w-20 shrink-0">{rule.severity}</span>
+                    <span className="text-foreground">{rule.weight} pts</span>
+                  </div>
+                ))}
+              </div>
+              <Separator />
+              <div className="space-y-1 text-sm">
+                {Object.entries(SCORING_PROFILES).map(([name, overrides]) => (
+                  <div key={name} className="flex gap-2">
+                    <code className="text-primary">{name}</code>
+                    <span className="text-muted-foreground font-mono text-xs">
+                      {Object.keys(overrides).length === 0
+                        ? 'default weights'
+                        : Object.entries(overrides).map(([id, weight]) => `${id}=${weight}`).join(', ')}
+                    </span>
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -312,17 +675,22 @@ const Docs = () => {
               <Separator />
               <div>
                 <h4 className="font-semibold text-sm mb-2">Invalid URL (400)</h4>
-                <p className="text-sm text-muted-foreground">Ensure URL starts with http:// or https:// and is properly formatted.</p>
+                <p className="text-sm text-muted-foreground">Ensure URL starts with http:// or https:// and is properly formatted. Localhost, private-network, link-local and cloud metadata addresses are refused, including redirects to them.</p>
               </div>
               <Separator />
               <div>
                 <h4 className="font-semibold text-sm mb-2">Failed to Fetch (502)</h4>
-                <p className="text-sm text-muted-foreground">Target website may be blocking requests or experiencing issues. Try a different URL.</p>
+                <p className="text-sm text-muted-foreground">Target website may be blocking requests, timing out or experiencing issues. Try a different URL or raise the timeout.</p>
+              </div>
+              <Separator />
+              <div>
+                <h4 className="font-semibold text-sm mb-2">History</h4>
+                <p className="text-sm text-muted-foreground">Every fresh run is stored in the analyses table with its issues in analysis_issues. History is shared by everyone using the app; a failed write is logged and does not fail the request.</p>
               </div>
               <Separator />
               <div>
                 <h4 className="font-semibold text-sm mb-2">Caching</h4>
-                <p className="text-sm text-muted-foreground">Results are cached for 1 hour. Cached responses include "cached": true field.</p>
+                <p className="text-sm text-muted-foreground">Successful (2xx) results are cached for 1 hour, separately for each userAgent, followRedirects, timeout and maxBodySize. Cached responses include "cached": true field.</p>
               </div>
             </CardContent>
           </Card>
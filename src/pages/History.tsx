@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { IssueList } from '@/components/IssueList';
+import { useAnalysisHistory, useStoredAnalysis, useUrlHistory } from '@/hooks/useAnalysisHistory';
+import type { ScorePoint } from '@/lib/history';
+import type { ScoreCategory } from '@shared/seo/index.ts';
+import { Home, Terminal, TrendingUp, Search, Camera, ExternalLink } from 'lucide-react';
+
+const CATEGORIES: ScoreCategory[] = ['basic', 'social', 'technical', 'images', 'keyword'];
+
+const chartConfig = {
+  total: { label: 'total', color: 'hsl(var(--primary))' },
+  basic: { label: 'basic', color: 'hsl(var(--success))' },
+  social: { label: 'social', color: 'hsl(262 83% 58%)' },
+  technical: { label: 'technical', color: 'hsl(var(--warning))' },
+  images: { label: 'images', color: 'hsl(199 89% 48%)' },
+  keyword: { label: 'keyword', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+// Totals are only comparable under the same weights, so each profile is its own series,
+// and runs with a target keyword (which adds the keyword rules) are kept apart from it
+const seriesOf = (point: ScorePoint) => (point.keyword ? `${point.profile} + keyword` : point.profile);
+
+const categoriesOf = (keyword: boolean) => CATEGORIES.filter((category) => keyword || category !== 'keyword');
+
+// Categories have different maximums per profile, so they are plotted as a percentage
+const toChartRow = (point: ScorePoint) => ({
+  id: point.id,
+  run: new Date(point.createdAt).toLocaleString(),
+  total: point.total,
+  ...Object.fromEntries(
+    categoriesOf(point.keyword).map((category) => [
+      category,
+      point.max[category] ? Math.round((point.breakdown[category] / point.max[category]) * 100) : 100,
+    ])
+  ),
+});
+
+const History = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const url = searchParams.get('url') || '';
+  const [input, setInput] = useState(url);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedSeries, setSelectedSeries] = useState<string | null>(null);
+
+  const { data: recent = [] } = useAnalysisHistory(50);
+  const { data: points = [], isLoading, error } = useUrlHistory(url);
+  const { data: snapshot } = useStoredAnalysis(selectedId);
+
+  const recentUrls = Array.from(new Set(recent.map((entry) => entry.url)));
+  // Newest series first; the latest run's series is shown until another is picked
+  const seriesNames = Array.from(new Set(points.map(seriesOf).reverse()));
+  const series = selectedSeries && seriesNames.includes(selectedSeries) ? selectedSeries : seriesNames[0];
+  const seriesPoints = points.filter((point) => seriesOf(point) === series);
+  const rows = seriesPoints.map(toChartRow);
+  const lines = ['total', ...categoriesOf(seriesPoints[0]?.keyword ?? false)];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSelectedId(null);
+    setSelectedSeries(null);
+    setSearchParams(input ? { url: input } : {});
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="absolute inset-0 opacity-5">
+        <div className="absolute inset-0" style={{
+          backgroundImage: `radial-gradient(circle at 1px 1px, rgb(255,255,255) 1px, transparent 0)`,
+          backgroundSize: '20px 20px'
+        }}></div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 relative z-10">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="animate-fade-in">
+            <Link to="/" className="inline-flex items-center gap-2 text-sm font-mono text-muted-foreground hover:text-foreground mb-4">
+              <Home className="h-4 w-4" />
+              Back to SEO Tester
+            </Link>
+
+            <div className="flex items-center gap-3 mb-4 p-4 bg-muted/50 rounded-lg border border-border/50">
+              <Terminal className="h-5 w-5 text-primary" />
+              <div className="flex items-center gap-1 text-xs font-mono">
+                <span className="text-primary">$</span>
+                <span className="text-muted-foreground">seo-analyzer</span>
+                <span className="text-primary">--history</span>
+              </div>
+            </div>
+
+            <h1 className="text-2xl font-bold text-foreground font-mono flex items-center gap-2">
+              <TrendingUp className="h-6 w-6 text-primary" />
+              Score History
+            </h1>
+            <p className="text-sm text-muted-foreground font-mono mt-1">
+              → Total and per-category scores of every stored run of a URL
+            </p>
+          </div>
+
+          {/* URL Selection */}
+          <Card className="border border-border bg-card">
+            <CardContent className="pt-6 space-y-3">
+              <form onSubmit={handleSubmit} className="flex gap-3">
+                <Input
+                  type="url"
+                  placeholder="https://example.com"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  className="font-mono text-sm"
+                />
+                <Button type="submit" className="font-mono text-xs">
+                  <Search className="h-3 w-3 mr-1" />
+                  --show
+                </Button>
+              </form>
+              {recentUrls.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  <span className="text-xs text-muted-foreground font-mono">Recent:</span>
+                  {recentUrls.slice(0, 8).map((recentUrl) => (
+                    <Button
+                      key={recentUrl}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setInput(recentUrl);
+                        setSelectedId(null);
+                        setSelectedSeries(null);
+                        setSearchParams({ url: recentUrl });
+                      }}
+                      className="text-xs font-mono"
+                    >
+                      {recentUrl}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Score Trend */}
+          {url && (
+            <Card className="border border-border bg-card">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <TrendingUp className="h-4 w-4 text-primary" />
+                    <span className="font-mono text-sm">Score Trend</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {seriesNames.length > 1 && (
+                      <Select value={series} onValueChange={setSelectedSeries}>
+                        <SelectTrigger className="h-7 w-44 font-mono text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {seriesNames.map((name) => (
+                            <SelectItem key={name} value={name} className="font-mono text-xs">{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {seriesNames.length > 1 ? `${seriesPoints.length} of ${points.length}` : points.length} runs
+                    </Badge>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {error ? (
+                  <div className="font-mono text-xs text-red-500">{error instanceof Error ? error.message : 'Failed to load history'}</div>
+                ) : isLoading ? (
+                  <div className="font-mono text-xs text-muted-foreground">Loading runs...</div>
+                ) : rows.length === 0 ? (
+                  <div className="font-mono text-xs text-muted-foreground">No stored runs for this URL yet</div>
+                ) : (
+                  <>
+                    <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                      <LineChart
+                        data={rows}
+                        margin={{ left: 0, right: 12, top: 12 }}
+                        onClick={(state) => {
+                          const id = state?.activePayload?.[0]?.payload?.id;
+                          if (id) setSelectedId(id);
+                        }}
+                        className="cursor-pointer"
+                      >
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="run" tickLine={false} axisLine={false} tickMargin={8} minTickGap={32} />
+                        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {lines.map((key) => (
+                          <Line
+                            key={key}
+                            dataKey={key}
+                            type="monotone"
+                            stroke={`var(--color-${key})`}
+                            strokeWidth={key === 'total' ? 3 : 1.5}
+                            dot={{ r: key === 'total' ? 4 : 2 }}
+                            activeDot={{ r: 6 }}
+                            isAnimationActive={false}
+                          />
+                        ))}
+                      </LineChart>
+                    </ChartContainer>
+                    <p className="text-xs font-mono text-muted-foreground mt-2">
+                      Categories are shown as a percentage of their maximum. Each scoring profile, with or without a target keyword, is charted separately. Click a run to view its snapshot.
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Snapshot */}
+          {snapshot && (
+            <Card className="border border-border bg-card">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Camera className="h-4 w-4 text-primary" />
+                    <span className="font-mono text-sm">Snapshot</span>
+                    <span className="font-mono text-xs text-muted-foreground">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {snapshot.score.profile}
+                    </Badge>
+                    <Link to={`/?analysis=${snapshot.id}`}>
+                      <Button variant="ghost" size="sm" className="text-xs font-mono">
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                        Open in tester
+                      </Button>
+                    </Link>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 font-mono text-xs">
+                  <div className="p-3 bg-muted/20 rounded">
+                    <div className="text-muted-foreground">total</div>
+                    <div className="text-xl font-bold text-primary">{snapshot.score.total}</div>
+                  </div>
+                  {categoriesOf((snapshot.score.max.keyword ?? 0) > 0).map((category) => (
+                    <div key={category} className="p-3 bg-muted/20 rounded">
+                      <div className="text-muted-foreground">{category}</div>
+                      <div className="text-xl font-bold">
+                        {snapshot.score.breakdown[category]}
+                        <span className="text-xs text-muted-foreground">/{snapshot.score.max[category]}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-1 font-mono text-xs">
+                  <div><span className="text-primary">title:</span> {snapshot.data.title || '❌ null'}</div>
+                  <div><span className="text-primary">description:</span> {snapshot.data.description || '❌ null'}</div>
+                  {snapshot.http && <div><span className="text-primary">status:</span> {snapshot.http.status}</div>}
+                </div>
+                {snapshot.issues && snapshot.issues.length > 0 ? (
+                  <IssueList key={snapshot.id} issues={snapshot.issues} />
+                ) : (
+                  <div className="font-mono text-xs text-muted-foreground">No issues in this run</div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,60 @@
+// Fetch-and-analyze pipeline shared by the edge functions: one page fetch, one
+// parse, and the full SEOAnalysis including transport details, redirects and robots.txt.
+import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import {
+  analyzeDocument,
+  buildRedirectChain,
+  buildRenderReport,
+  isLongRedirectChain,
+  type ScoringOptions,
+  type SEOAnalysis,
+} from "./seo/index.ts";
+import { fetchPage, type FetchPageOptions } from "./fetcher.ts";
+import { auditPageRobots } from "./robots.ts";
+import type { PageRenderer } from "./renderer.ts";
+
+export const parseHtml = (html: string): Document => {
+  // deno-dom's HTMLDocument is structurally compatible with the subset of the DOM the analyzer reads
+  return new DOMParser().parseFromString(html, 'text/html') as unknown as Document;
+};
+
+// Markup posted by the caller (e.g. from a staging site behind a VPN): there is no
+// response to audit, so headers, robots.txt and the redirect chain are left out
+export const analyzeHtml = (html: string, url: string, scoring: ScoringOptions): SEOAnalysis =>
+  analyzeDocument(parseHtml(html), url, undefined, scoring);
+
+// With a renderer the result describes the rendered DOM, and render compares it
+// with the raw markup; transport details always come from the raw fetch.
+export const analyzePage = async (
+  url: string,
+  options: FetchPageOptions,
+  scoring: ScoringOptions,
+  renderer?: PageRenderer
+): Promise<SEOAnalysis> => {
+  const page = await fetchPage(url, options);
+  const robots = await auditPageRobots(page.finalUrl, options);
+  const analyze = (html: string) => analyzeDocument(parseHtml(html), page.finalUrl, page.headers, scoring, robots);
+  const redirects = buildRedirectChain(page.redirects);
+
+  const transport: Pick<SEOAnalysis, 'http' | 'redirects'> = {
+    http: {
+      status: page.status,
+      statusText: page.statusText,
+      contentType: page.contentType,
+      finalUrl: page.finalUrl,
+      bytes: page.bytes,
+      truncated: page.truncated,
+      durationMs: page.durationMs,
+      redirectCount: redirects.length,
+      longRedirectChain: isLongRedirectChain(redirects),
+      redirectLoop: page.redirectLoop,
+    },
+    redirects,
+  };
+  const raw = { ...analyze(page.html), ...transport };
+  if (!renderer) return raw;
+
+  const startedAt = Date.now();
+  const rendered = { ...analyze(await renderer.render(page.finalUrl, options)), ...transport };
+  return { ...rendered, render: buildRenderReport(raw, rendered, renderer.name, Date.now() - startedAt) };
+};
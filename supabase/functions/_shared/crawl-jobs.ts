@@ -0,0 +1,111 @@
+// Crawl job rows: created when a crawl is requested, updated as it progresses
+// and polled by clients until the report is in.
+import { getServiceClient } from "./db.ts";
+import type { CrawlJob, CrawlJobStatus, CrawlOptions, SiteReport } from "./seo/index.ts";
+
+interface CrawlJobUpdate {
+  status?: CrawlJobStatus;
+  pagesCrawled?: number;
+  report?: SiteReport;
+  error?: string;
+}
+
+// Running crawls touch updated_at after every page. A job silent for longer than this
+// lost its worker (e.g. to the wall-clock limit) and will never finish.
+const STALE_JOB_MS = 3 * 60 * 1000;
+
+// Jobs still owned by a worker; finished ones are never written again, so a poll that
+// failed a job and a slow worker finishing it cannot overwrite each other
+const ACTIVE_STATUSES: CrawlJobStatus[] = ['queued', 'running'];
+
+export const createCrawlJob = async (startUrl: string, options: CrawlOptions): Promise<string | null> => {
+  const supabase = getServiceClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from('crawl_jobs')
+    .insert({ start_url: startUrl, options })
+    .select('id')
+    .single();
+  if (error) {
+    console.error('Failed to create crawl job:', error);
+    return null;
+  }
+  return data.id;
+};
+
+export const updateCrawlJob = async (id: string, update: CrawlJobUpdate) => {
+  const supabase = getServiceClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from('crawl_jobs')
+    .update({
+      ...(update.status ? { status: update.status } : {}),
+      ...(update.pagesCrawled !== undefined ? { pages_crawled: update.pagesCrawled } : {}),
+      ...(update.report ? { report: update.report } : {}),
+      ...(update.error ? { error: update.error } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .in('status', ACTIVE_STATUSES);
+  if (error) console.error('Failed to update crawl job:', error);
+};
+
+// Columns of crawl_jobs as the service client returns them
+interface CrawlJobRow {
+  id: string;
+  start_url: string;
+  status: CrawlJobStatus;
+  options: CrawlOptions;
+  pages_crawled: number;
+  report: SiteReport | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toCrawlJob = (row: CrawlJobRow): CrawlJob => ({
+  id: row.id,
+  startUrl: row.start_url,
+  status: row.status,
+  options: row.options,
+  pagesCrawled: row.pages_crawled,
+  report: row.report,
+  error: row.error,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const getCrawlJob = async (id: string): Promise<CrawlJob | null> => {
+  const supabase = getServiceClient();
+  if (!supabase) return null;
+
+  const { data: row, error } = await supabase.from('crawl_jobs').select('*').eq('id', id).maybeSingle();
+  if (error) {
+    console.error('Failed to load crawl job:', error);
+    return null;
+  }
+  if (!row) return null;
+
+  const job = toCrawlJob(row);
+  if (!ACTIVE_STATUSES.includes(job.status) || Date.now() - Date.parse(job.updatedAt) <= STALE_JOB_MS) return job;
+
+  // Failed on poll, since a worker that was shut down cannot report it itself. The
+  // heartbeat decides: if one lands after the read, updated_at is no longer stale and
+  // the update matches nothing.
+  const { data: failed, error: failError } = await supabase
+    .from('crawl_jobs')
+    .update({
+      status: 'failed',
+      error: `Crawl stopped responding after ${job.pagesCrawled} pages`,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .in('status', ACTIVE_STATUSES)
+    .lte('updated_at', new Date(Date.now() - STALE_JOB_MS).toISOString())
+    .select('*')
+    .maybeSingle();
+  if (failError) console.error('Failed to update crawl job:', failError);
+  return failed ? toCrawlJob(failed) : job;
+};
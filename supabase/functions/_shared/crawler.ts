@@ -0,0 +1,109 @@
+// Breadth-first site crawler: analyzes the start page, then every internal link
+// one depth level at a time until maxDepth or maxPages is reached. Links that
+// robots.txt disallows for the crawler's user agent are reported, not fetched.
+import {
+  buildSiteReport,
+  normalizeUrl,
+  summarizeFailedPage,
+  summarizePage,
+  type CrawlOptions,
+  type CrawlPageResult,
+  type SiteReport,
+} from "./seo/index.ts";
+import { analyzePage } from "./analyze-page.ts";
+import { saveAnalysis } from "./history.ts";
+import { mapWithConcurrency } from "./pool.ts";
+import { isCrawlAllowed, loadRobotsRules } from "./robots.ts";
+import type { FetchPageOptions } from "./fetcher.ts";
+
+const CRAWL_CONCURRENCY = 3;
+
+// Files that are linked like pages but are never HTML worth analyzing
+const NON_HTML_EXTENSIONS = /\.(pdf|zip|gz|jpe?g|png|gif|webp|avif|svg|ico|mp3|mp4|webm|mov|css|js|json|xml|txt|woff2?)$/i;
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+// Patterns match the path plus query string, e.g. "/blog/*" or "*?page=*"
+export const isPathAllowed = (url: string, include: string[], exclude: string[]) => {
+  const { pathname, search } = new URL(url);
+  const path = `${pathname}${search}`;
+  const matches = (pattern: string) => globToRegExp(pattern).test(path);
+  return (include.length === 0 || include.some(matches)) && !exclude.some(matches);
+};
+
+interface CrawledPage {
+  page: CrawlPageResult;
+  links: string[];
+}
+
+export const crawlSite = async (
+  startUrl: string,
+  options: CrawlOptions,
+  fetchOptions: FetchPageOptions,
+  jobId?: string,
+  onProgress?: (pagesCrawled: number) => Promise<void>
+): Promise<SiteReport> => {
+  const scoring = { profile: options.profile, weights: options.weights, targetKeyword: options.targetKeyword };
+  const start = normalizeUrl(startUrl);
+  const visited = new Set([start]);
+  const pages: CrawlPageResult[] = [];
+  const blockedByRobots: string[] = [];
+  const robots = await loadRobotsRules(new URL(start).origin, fetchOptions);
+  let level = [start];
+  let truncated = false;
+  let analyzed = 0;
+
+  for (let depth = 0; level.length > 0; depth++) {
+    const batch = level.slice(0, options.maxPages - pages.length);
+    const collectLinks = depth < options.maxDepth;
+
+    const crawlPage = async (url: string): Promise<CrawledPage> => {
+      try {
+        const analysis = await analyzePage(url, fetchOptions, scoring);
+        const id = await saveAnalysis(url, analysis, jobId);
+        const isHtml = !analysis.http || /html/i.test(analysis.http.contentType);
+        const links = collectLinks && isHtml && analysis.data.links
+          ? analysis.data.links.links
+            .filter((link) => link.type === 'internal' && !link.nofollow)
+            .map((link) => link.href)
+          : [];
+        return { page: summarizePage(url, depth, id ? { id, ...analysis } : analysis), links };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Analysis failed';
+        return { page: summarizeFailedPage(url, depth, message), links: [] };
+      }
+    };
+
+    const results = await mapWithConcurrency(batch, CRAWL_CONCURRENCY, async (url) => {
+      const result = await crawlPage(url);
+      // Reported after every page, so the job's updated_at doubles as a heartbeat
+      await onProgress?.(++analyzed);
+      return result;
+    });
+
+    const next: string[] = [];
+    for (const { page, links } of results) {
+      pages.push(page);
+      for (const link of links) {
+        const url = normalizeUrl(link);
+        if (visited.has(url) || NON_HTML_EXTENSIONS.test(new URL(url).pathname)) continue;
+        if (!isPathAllowed(url, options.include, options.exclude)) continue;
+        visited.add(url);
+        if (robots && !isCrawlAllowed(robots, url, fetchOptions)) {
+          blockedByRobots.push(url);
+          continue;
+        }
+        next.push(url);
+      }
+    }
+
+    if (pages.length >= options.maxPages) {
+      truncated = batch.length < level.length || next.length > 0;
+      break;
+    }
+    level = next;
+  }
+
+  return buildSiteReport(start, pages, truncated, blockedByRobots);
+};
@@ -0,0 +1,14 @@
+// Service-role client for the edge functions. Writes bypass RLS; the tables only
+// grant read access to the browser.
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+
+let client: SupabaseClient | null = null;
+
+// Returns null when the function runs without database credentials (e.g. locally)
+export const getServiceClient = () => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) return null;
+  client ??= createClient(url, key, { auth: { persistSession: false } });
+  return client;
+};
@@ -0,0 +1,230 @@
+// Direct page fetcher used by the edge functions in place of a CORS proxy, so the
+// analysis sees the real status code, headers and final URL of the target.
+
+export interface FetchPageOptions {
+  userAgent?: string;
+  timeoutMs?: number;
+  maxBodyBytes?: number;
+  followRedirects?: boolean;
+  maxRedirects?: number;
+  // Accept header; defaults to HTML
+  accept?: string;
+}
+
+export interface FetchedRedirect {
+  url: string;
+  status: number;
+  location: string;
+}
+
+export interface FetchedPage {
+  requestedUrl: string;
+  finalUrl: string;
+  redirects: FetchedRedirect[];
+  redirectLoop: boolean;
+  status: number;
+  statusText: string;
+  contentType: string;
+  headers: Record<string, string>;
+  html: string;
+  // Undecoded body, for resources that are not text (e.g. gzipped sitemaps)
+  body: Uint8Array;
+  bytes: number;
+  truncated: boolean;
+  durationMs: number;
+}
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; SEOInspector/1.0)';
+export const DEFAULT_TIMEOUT_MS = 10000;
+export const DEFAULT_MAX_BODY_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_MAX_REDIRECTS = 10;
+
+export const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Names that resolve inside the hosting network, including the cloud metadata service
+const INTERNAL_HOSTNAMES = /^(localhost|metadata\.google\.internal)$|\.(localhost|internal)$/i;
+
+// 0/8, loopback, 10/8, CGNAT 100.64/10, 172.16/12, 192.168/16, link-local 169.254/16
+// (metadata at 169.254.169.254), and the special-purpose 192.0.0/24 and 198.18/15
+const isPrivateIPv4 = (host: string) => {
+  const match = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return false;
+  const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19));
+};
+
+// Unspecified, loopback, unique local fc00::/7, link-local fe80::/10 and IPv4-mapped private addresses
+const isPrivateIPv6 = (host: string) => {
+  const address = host.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!address.includes(':')) return false;
+  if (address === '::' || address === '::1') return true;
+  // URL serializes ::ffff:127.0.0.1 as ::ffff:7f00:1; DNS answers keep the dotted form
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPrivateIPv4(dotted[1]);
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  const first = address.split(':')[0];
+  return first.length === 4 && /^(f[cd]|fe[89ab])/.test(first);
+};
+
+const isPrivateAddress = (address: string) => isPrivateIPv4(address) || isPrivateIPv6(address);
+
+// A and AAAA records of host. A failed lookup yields nothing and leaves the error to fetch.
+const resolveAddresses = async (host: string) => {
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+// Throws unless url is an http(s) URL on a public host. Checked before every request,
+// redirects included, so the functions cannot be used to reach internal services.
+// URL parsing already turns decimal and hex IPv4 forms into dotted quads; names are
+// resolved so one pointing at a private address (*.nip.io, rebinding) is refused too.
+export const assertPublicUrl = async (url: string) => {
+  const parsed = new URL(url);
+  if (!/^https?:$/.test(parsed.protocol)) {
+    throw new Error('Only HTTP(S) URLs are supported');
+  }
+  const host = parsed.hostname.replace(/\.$/, '');
+  if (INTERNAL_HOSTNAMES.test(host) || isPrivateAddress(host)) {
+    throw new Error(`Refusing to fetch ${parsed.hostname}: private or internal address`);
+  }
+  if (!/^[\d.]+$/.test(host) && !host.startsWith('[')) {
+    const privateAddress = (await resolveAddresses(host)).find(isPrivateAddress);
+    if (privateAddress) {
+      throw new Error(`Refusing to fetch ${parsed.hostname}: resolves to private address ${privateAddress}`);
+    }
+  }
+  return parsed;
+};
+
+const readBody = async (response: Response, maxBytes: number) => {
+  if (!response.body) return { buffer: new Uint8Array(0), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (received + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - received));
+      received = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    received += value.byteLength;
+  }
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { buffer, truncated };
+};
+
+const decodeBody = (buffer: Uint8Array, contentType: string) => {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch {
+    // Unknown or unsupported charset label, fall back to UTF-8
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+};
+
+export const fetchPage = async (url: string, options: FetchPageOptions = {}): Promise<FetchedPage> => {
+  const {
+    userAgent = DEFAULT_USER_AGENT,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    followRedirects = true,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    accept = 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+  } = options;
+
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let currentUrl = url;
+    let response: Response;
+    let redirectLoop = false;
+    const redirects: FetchedRedirect[] = [];
+    const visited = new Set([currentUrl]);
+
+    // Redirects are followed by hand so each hop stays observable and is checked
+    while (true) {
+      await assertPublicUrl(currentUrl);
+      response = await fetch(currentUrl, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': accept,
+          'Accept-Encoding': 'gzip, deflate, br',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) break;
+
+      redirects.push({ url: currentUrl, status: response.status, location });
+      if (!followRedirects) break;
+
+      const nextUrl = new URL(location, currentUrl).toString();
+      if (visited.has(nextUrl)) {
+        // Stop on the hop that points back into the chain and report it
+        redirectLoop = true;
+        break;
+      }
+      if (redirects.length > maxRedirects) {
+        throw new Error(`Failed to fetch website: more than ${maxRedirects} redirects`);
+      }
+      await response.body?.cancel();
+      visited.add(nextUrl);
+      currentUrl = nextUrl;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const { buffer, truncated } = await readBody(response, maxBodyBytes);
+
+    return {
+      requestedUrl: url,
+      finalUrl: currentUrl,
+      redirects,
+      redirectLoop,
+      status: response.status,
+      statusText: response.statusText,
+      contentType,
+      headers: Object.fromEntries(response.headers.entries()),
+      html: decodeBody(buffer, contentType),
+      body: buffer,
+      bytes: buffer.byteLength,
+      truncated,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Failed to fetch website: timed out after ${timeoutMs}ms`);
+    }
+    if (error instanceof TypeError) {
+      // Network-level failures (DNS, TLS, connection reset) surface as TypeErrors
+      throw new Error(`Failed to fetch website: ${error.message}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
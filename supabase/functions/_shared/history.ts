@@ -0,0 +1,91 @@
+// Persists every analyze-seo run so history survives across browsers and is
+// shared between teammates.
+import { getServiceClient } from "./db.ts";
+import type { SEOAnalysis } from "./seo/index.ts";
+
+// Returns the id of the stored run, or null when history is unavailable.
+// A failed write is logged but never fails the analysis itself.
+export const saveAnalysis = async (
+  url: string,
+  analysis: SEOAnalysis,
+  crawlJobId?: string
+): Promise<string | null> => {
+  const supabase = getServiceClient();
+  if (!supabase) return null;
+
+  try {
+    const { data: row, error } = await supabase
+      .from('analyses')
+      .insert({
+        url,
+        final_url: analysis.http?.finalUrl ?? null,
+        profile: analysis.score.profile,
+        total_score: analysis.score.total,
+        score: analysis.score,
+        data: analysis.data,
+        http: analysis.http ?? null,
+        redirects: analysis.redirects ?? [],
+        crawl_job_id: crawlJobId ?? null,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    const issues = analysis.issues ?? [];
+    if (issues.length > 0) {
+      const { error: issuesError } = await supabase.from('analysis_issues').insert(
+        issues.map((issue, position) => ({
+          analysis_id: row.id,
+          rule_id: issue.ruleId,
+          severity: issue.severity,
+          category: issue.category,
+          message: issue.message,
+          selector: issue.selector,
+          observed: issue.observed,
+          expected: issue.expected,
+          fix: issue.fix,
+          position,
+        }))
+      );
+      if (issuesError) throw issuesError;
+    }
+
+    return row.id;
+  } catch (error) {
+    console.error('Failed to save analysis history:', error);
+    return null;
+  }
+};
+
+export interface StoredRun extends SEOAnalysis {
+  id: string;
+  url: string;
+  createdAt: string;
+}
+
+// Issues are not loaded: callers re-score stored data with the profile they need
+export const loadAnalysis = async (id: string): Promise<StoredRun | null> => {
+  const supabase = getServiceClient();
+  if (!supabase) return null;
+
+  const { data: row, error } = await supabase
+    .from('analyses')
+    .select('id, url, created_at, data, score, http, redirects')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load analysis:', error);
+    return null;
+  }
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    url: row.url,
+    createdAt: row.created_at,
+    data: row.data,
+    score: row.score,
+    http: row.http ?? undefined,
+    redirects: row.redirects,
+  };
+};
@@ -0,0 +1,118 @@
+import { mapWithConcurrency } from './pool.ts';
+import { normalizeUrl } from './seo/index.ts';
+import { assertPublicUrl, DEFAULT_MAX_REDIRECTS, DEFAULT_USER_AGENT, REDIRECT_STATUSES } from './fetcher.ts';
+import type { LinkCheckReport, LinkCheckResult, LinkInfo } from './seo/types.ts';
+
+export interface LinkCheckOptions {
+  userAgent?: string;
+  timeoutMs?: number;
+  concurrency?: number;
+  maxLinks?: number;
+}
+
+export const DEFAULT_LINK_TIMEOUT_MS = 5000;
+export const DEFAULT_LINK_CONCURRENCY = 5;
+export const DEFAULT_MAX_LINKS = 100;
+
+// Servers that reject or do not implement HEAD; retry these with GET
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501];
+
+// Redirects are followed by hand so every hop passes the same host check as fetchPage
+const request = async (url: string, method: 'HEAD' | 'GET', userAgent: string, timeoutMs: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    let currentUrl = url;
+    for (let hops = 0; ; hops++) {
+      await assertPublicUrl(currentUrl);
+      const response = await fetch(currentUrl, {
+        method,
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: { 'User-Agent': userAgent },
+      });
+      // Only the status matters, so release the connection without reading the body
+      await response.body?.cancel();
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        return { response, finalUrl: currentUrl, redirected: hops > 0 };
+      }
+      if (hops >= DEFAULT_MAX_REDIRECTS) throw new Error(`More than ${DEFAULT_MAX_REDIRECTS} redirects`);
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const checkLink = async (url: string, userAgent: string, timeoutMs: number): Promise<LinkCheckResult> => {
+  const startedAt = Date.now();
+  let method: 'HEAD' | 'GET' = 'HEAD';
+
+  try {
+    let result: Awaited<ReturnType<typeof request>>;
+    try {
+      result = await request(url, 'HEAD', userAgent, timeoutMs);
+      if (HEAD_UNSUPPORTED_STATUSES.includes(result.response.status)) {
+        method = 'GET';
+        result = await request(url, 'GET', userAgent, timeoutMs);
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      method = 'GET';
+      result = await request(url, 'GET', userAgent, timeoutMs);
+    }
+
+    return {
+      url,
+      status: result.response.status,
+      ok: result.response.ok,
+      method,
+      redirected: result.redirected,
+      finalUrl: result.finalUrl,
+      timedOut: false,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    return {
+      url,
+      status: null,
+      ok: false,
+      method,
+      redirected: false,
+      finalUrl: url,
+      timedOut,
+      error: timedOut ? `Timed out after ${timeoutMs}ms` : error instanceof Error ? error.message : 'Request failed',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+};
+
+export const checkLinks = async (links: LinkInfo[], options: LinkCheckOptions = {}): Promise<LinkCheckReport> => {
+  const {
+    userAgent = DEFAULT_USER_AGENT,
+    timeoutMs = DEFAULT_LINK_TIMEOUT_MS,
+    concurrency = DEFAULT_LINK_CONCURRENCY,
+    maxLinks = DEFAULT_MAX_LINKS,
+  } = options;
+
+  // Each distinct URL is requested once, ignoring the fragment
+  const targets = Array.from(new Set(
+    links
+      .filter((link) => link.type === 'internal' || link.type === 'external')
+      .map((link) => normalizeUrl(link.href)),
+  ));
+  const toCheck = targets.slice(0, maxLinks);
+
+  const results = await mapWithConcurrency(toCheck, concurrency, (url) => checkLink(url, userAgent, timeoutMs));
+
+  return {
+    checked: results.length,
+    broken: results.filter((result) => !result.ok).length,
+    redirected: results.filter((result) => result.redirected).length,
+    timedOut: results.filter((result) => result.timedOut).length,
+    skipped: targets.length - toCheck.length,
+    results,
+  };
+};
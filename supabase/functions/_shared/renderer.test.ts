@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { staticRenderer } from './renderer.ts';
+import { analyzeDocument, buildRenderReport } from './seo/index.ts';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const PAGE = `<html lang="en"><head>
+  <title>Handmade oak furniture for every room</title>
+  <meta name="description" content="Tables, chairs and shelves built by hand from solid oak.">
+</head><body><h1>Oak furniture</h1><div id="root"></div><script src="/app.js"></script></body></html>`;
+
+// Public addresses unless a test maps a name to a private one
+const addresses: Record<string, string> = { 'internal.example.com': '10.0.0.5' };
+
+const html = (body: string) => new Response(body, { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' } });
+const redirect = (location: string) => new Response(null, { status: 301, headers: { location } });
+
+describe('staticRenderer', () => {
+  const fetchMock = vi.fn<(url: string) => Promise<Response>>();
+
+  beforeEach(() => {
+    // fetchPage resolves every host before fetching it
+    vi.stubGlobal('Deno', {
+      resolveDns: async (host: string, type: string) => (type === 'A' ? [addresses[host] ?? '93.184.215.14'] : []),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the raw markup, so the render report is empty', async () => {
+    fetchMock.mockResolvedValueOnce(html(PAGE));
+    const rendered = await staticRenderer.render('https://example.com/', {});
+
+    expect(rendered).toBe(PAGE);
+    const raw = analyzeDocument(parse(PAGE), 'https://example.com/');
+    const report = buildRenderReport(raw, analyzeDocument(parse(rendered), 'https://example.com/'), staticRenderer.name, 0);
+    expect(report.renderer).toBe('static');
+    expect(report.comparison.fieldChanges).toEqual([]);
+    expect(report.comparison.newlyPassing).toEqual([]);
+    expect(report.onlyRendered).toEqual([]);
+  });
+
+  it('follows redirects to the final page', async () => {
+    fetchMock.mockResolvedValueOnce(redirect('/home')).mockResolvedValueOnce(html(PAGE));
+
+    expect(await staticRenderer.render('https://example.com/', {})).toBe(PAGE);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://example.com/', 'https://example.com/home']);
+  });
+
+  it('refuses private addresses before fetching', async () => {
+    await expect(staticRenderer.render('http://127.0.0.1/', {})).rejects.toThrow(/private or internal address/);
+    await expect(staticRenderer.render('http://100.64.0.1/', {})).rejects.toThrow(/private or internal address/);
+    await expect(staticRenderer.render('https://internal.example.com/', {})).rejects.toThrow(/resolves to private address 10\.0\.0\.5/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses redirects to private addresses', async () => {
+    fetchMock.mockResolvedValueOnce(redirect('http://169.254.169.254/latest/meta-data/'));
+
+    await expect(staticRenderer.render('https://example.com/', {})).rejects.toThrow(/private or internal address/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,42 @@
+// Headless rendering for render: true. The edge runtime cannot start a browser, so
+// rendering is delegated to a service configured through the environment.
+import { fetchPage, type FetchPageOptions } from "./fetcher.ts";
+
+export interface PageRenderer {
+  // Reported in render.renderer so results show what produced the DOM
+  name: string;
+  // Resolves to the serialized DOM after scripts have run
+  render: (url: string, options: FetchPageOptions) => Promise<string>;
+}
+
+const RENDER_TIMEOUT_MS = 30000;
+
+// Any service that takes a JSON {url} POST and answers with the rendered HTML, such
+// as Browserless' /content endpoint (pass its token in the URL)
+export const createHttpRenderer = (endpoint: string): PageRenderer => ({
+  name: new URL(endpoint).host,
+  render: async (url) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, gotoOptions: { waitUntil: 'networkidle0' } }),
+      signal: AbortSignal.timeout(RENDER_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Renderer answered ${response.status}`);
+    return await response.text();
+  },
+});
+
+// Local stand-in that runs no scripts: it returns the raw markup, so the render
+// report is empty. Useful to exercise render: true without a rendering service.
+export const staticRenderer: PageRenderer = {
+  name: 'static',
+  render: async (url, options) => (await fetchPage(url, options)).html,
+};
+
+// RENDERER_URL selects a rendering service; RENDERER=static the stand-in
+export const getRenderer = (): PageRenderer | null => {
+  const endpoint = Deno.env.get('RENDERER_URL');
+  if (endpoint) return createHttpRenderer(endpoint);
+  return Deno.env.get('RENDERER') === 'static' ? staticRenderer : null;
+};
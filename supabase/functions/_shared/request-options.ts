@@ -0,0 +1,77 @@
+// Request body fields shared by the edge functions that fetch and score pages
+import { isKnownProfile, SCORING_PROFILES, SEO_RULES, splitWords } from "./seo/index.ts";
+import { DEFAULT_USER_AGENT, DEFAULT_TIMEOUT_MS, DEFAULT_MAX_BODY_BYTES, type FetchPageOptions } from "./fetcher.ts";
+
+// Upper bounds for the fetch options callers may override per request
+const MAX_TIMEOUT_MS = 30000;
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Fields that arrive as text in multipart forms but are numbers or booleans in JSON
+const NUMERIC_FIELDS = ['timeout', 'maxBodySize', 'sitemapLimit'];
+const BOOLEAN_FIELDS = ['checkLinks', 'followRedirects', 'sitemap', 'seedBatch'];
+
+// JSON bodies as-is; multipart bodies (HTML file uploads) become the same shape,
+// with the uploaded "file" read into "html"
+export const readRequestBody = async (req: Request) => {
+  if (!(req.headers.get('content-type') || '').toLowerCase().startsWith('multipart/form-data')) {
+    return await req.json();
+  }
+
+  const form = await req.formData();
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of form.entries()) {
+    if (typeof value !== 'string') {
+      if (key === 'file') body.html = await value.text();
+      continue;
+    }
+    if (NUMERIC_FIELDS.includes(key)) body[key] = Number(value);
+    else if (BOOLEAN_FIELDS.includes(key)) body[key] = value === 'true';
+    else if (key === 'weights') {
+      // Left as text when malformed so getScoringError rejects it with a 400
+      try {
+        body[key] = JSON.parse(value);
+      } catch {
+        body[key] = value;
+      }
+    }
+    else body[key] = value;
+  }
+  return body;
+};
+
+export const getFetchOptions = (body: Record<string, unknown>): FetchPageOptions => {
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    typeof value === 'number' && value > 0 ? Math.min(value, max) : fallback;
+
+  return {
+    userAgent: typeof body.userAgent === 'string' && body.userAgent
+      ? body.userAgent
+      : Deno.env.get('SEO_USER_AGENT') || DEFAULT_USER_AGENT,
+    timeoutMs: clamp(body.timeout, DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS),
+    maxBodyBytes: clamp(body.maxBodySize, DEFAULT_MAX_BODY_BYTES, MAX_BODY_BYTES),
+    followRedirects: body.followRedirects !== false,
+  };
+};
+
+// Returns null when the scoring fields are valid, otherwise the validation error
+export const getScoringError = (body: Record<string, unknown>): string | null => {
+  if (body.profile !== undefined && (typeof body.profile !== 'string' || !isKnownProfile(body.profile))) {
+    return `Unknown scoring profile. Available profiles: ${Object.keys(SCORING_PROFILES).join(', ')}`;
+  }
+  if (body.weights !== undefined) {
+    const weights = body.weights;
+    if (typeof weights !== 'object' || weights === null || Array.isArray(weights) ||
+        Object.values(weights).some((weight) => typeof weight !== 'number' || weight < 0)) {
+      return 'weights must be an object mapping rule ids to non-negative numbers';
+    }
+    // A misspelled id would otherwise be ignored and score with the default weight
+    const ruleIds = new Set(SEO_RULES.map((rule) => rule.id));
+    const unknown = Object.keys(weights).filter((id) => !ruleIds.has(id));
+    if (unknown.length > 0) return `Unknown rule ids in weights: ${unknown.join(', ')}`;
+  }
+  // Punctuation alone splits into no words, and every keyword rule would then fail
+  if (body.targetKeyword !== undefined && (typeof body.targetKeyword !== 'string' || splitWords(body.targetKeyword).length === 0)) {
+    return 'targetKeyword must contain at least one word';
+  }
+  return null;
+};
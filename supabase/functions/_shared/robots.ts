@@ -0,0 +1,67 @@
+// Fetches robots.txt once per origin and answers whether a URL may be crawled by
+// the search engine bots and by the user agent the request fetches with.
+import {
+  auditRobots,
+  checkRobotsAccess,
+  getProductToken,
+  parseRobotsTxt,
+  DEFAULT_ROBOTS_USER_AGENTS,
+  MAX_ROBOTS_BYTES,
+  type RobotsAudit,
+  type RobotsTxt,
+} from "./seo/index.ts";
+import { DEFAULT_USER_AGENT, fetchPage, type FetchPageOptions } from "./fetcher.ts";
+
+interface RobotsFile {
+  url: string;
+  // null when the request failed
+  status: number | null;
+  text: string;
+}
+
+// Google caches robots.txt for up to a day; a few minutes keeps crawls and batches cheap
+const ROBOTS_CACHE_TTL = 10 * 60 * 1000;
+const robotsCache = new Map<string, { file: RobotsFile; timestamp: number }>();
+
+export const fetchRobotsTxt = async (origin: string, options: FetchPageOptions): Promise<RobotsFile> => {
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() - cached.timestamp < ROBOTS_CACHE_TTL) return cached.file;
+
+  const url = `${origin}/robots.txt`;
+  let file: RobotsFile;
+  try {
+    // One byte past the limit so oversized files can be reported
+    const page = await fetchPage(url, { ...options, accept: 'text/plain,*/*;q=0.8', maxBodyBytes: MAX_ROBOTS_BYTES + 1 });
+    file = { url, status: page.status, text: page.status < 400 ? page.html : '' };
+  } catch (error) {
+    console.log('robots.txt unavailable:', error instanceof Error ? error.message : error);
+    file = { url, status: null, text: '' };
+  }
+  robotsCache.set(origin, { file, timestamp: Date.now() });
+  return file;
+};
+
+// Googlebot, Bingbot and the product token of the configured User-Agent
+export const getRobotsUserAgents = (options: FetchPageOptions) => {
+  const own = getProductToken(options.userAgent || DEFAULT_USER_AGENT);
+  return DEFAULT_ROBOTS_USER_AGENTS.some((agent) => agent.toLowerCase() === own.toLowerCase())
+    ? DEFAULT_ROBOTS_USER_AGENTS
+    : [...DEFAULT_ROBOTS_USER_AGENTS, own];
+};
+
+export const auditPageRobots = async (pageUrl: string, options: FetchPageOptions): Promise<RobotsAudit> => {
+  const file = await fetchRobotsTxt(new URL(pageUrl).origin, options);
+  return auditRobots(file.url, file.status, file.text, pageUrl, getRobotsUserAgents(options));
+};
+
+// Parsed rules for the crawler, which checks every discovered link against them
+export const loadRobotsRules = async (origin: string, options: FetchPageOptions): Promise<RobotsTxt | null> => {
+  const file = await fetchRobotsTxt(origin, options);
+  if (file.status === null) return null;
+  // Same reading as auditRobots: 5xx disallows everything, 4xx allows everything
+  if (file.status >= 500) return { groups: [{ userAgents: ['*'], rules: [{ type: 'disallow', path: '/' }] }], sitemaps: [] };
+  return file.status >= 400 ? { groups: [], sitemaps: [] } : parseRobotsTxt(file.text);
+};
+
+export const isCrawlAllowed = (robots: RobotsTxt, url: string, options: FetchPageOptions) =>
+  checkRobotsAccess(robots, url, getProductToken(options.userAgent || DEFAULT_USER_AGENT)).allowed;
@@ -0,0 +1,129 @@
+import type {
+  AnalysisComparison,
+  ComparedValue,
+  FieldChange,
+  RuleChange,
+  RuleResult,
+  ScoreCategory,
+  SEOAnalysis,
+} from './types.ts';
+
+type FieldReader = (analysis: SEOAnalysis) => ComparedValue | undefined;
+
+// Fields worth diffing: the raw tags plus the aggregate counts of each audit.
+// Full lists (links, images, outline) change too often to diff item by item.
+const COMPARED_FIELDS: Record<string, FieldReader> = {
+  title: (a) => a.data.title,
+  description: (a) => a.data.description,
+  h1: (a) => a.data.h1,
+  canonical: (a) => a.data.canonical,
+  metaRobots: (a) => a.data.metaRobots,
+  lang: (a) => a.data.lang,
+  viewport: (a) => a.data.viewport,
+  charset: (a) => a.data.charset,
+  keywords: (a) => a.data.keywords,
+  ogTitle: (a) => a.data.ogTitle,
+  ogDescription: (a) => a.data.ogDescription,
+  ogImage: (a) => a.data.ogImage,
+  ogType: (a) => a.data.ogType,
+  twitterCard: (a) => a.data.twitterCard,
+  twitterTitle: (a) => a.data.twitterTitle,
+  twitterDescription: (a) => a.data.twitterDescription,
+  twitterImage: (a) => a.data.twitterImage,
+  ogUrl: (a) => a.data.ogUrl,
+  ogSiteName: (a) => a.data.ogSiteName,
+  ogLocale: (a) => a.data.ogLocale,
+  twitterSite: (a) => a.data.twitterSite,
+  twitterCreator: (a) => a.data.twitterCreator,
+  'openGraph.errors': (a) => a.data.openGraph?.errors.length,
+  'twitter.errors': (a) => a.data.twitter?.errors.length,
+  'serp.title.pixelWidth': (a) => a.data.serp?.title.pixelWidth,
+  'serp.description.pixelWidth': (a) => a.data.serp?.description.pixelWidth,
+  'headings.counts.h1': (a) => a.data.headings?.counts.h1,
+  'headings.warnings': (a) => a.data.headings?.warnings.length,
+  'content.wordCount': (a) => a.data.content?.wordCount,
+  'content.textToHtmlRatio': (a) => a.data.content?.textToHtmlRatio,
+  'images.total': (a) => a.data.images?.total,
+  'images.missingAlt': (a) => a.data.images?.missingAlt,
+  'images.missingDimensions': (a) => a.data.images?.missingDimensions,
+  'links.total': (a) => a.data.links?.total,
+  'links.counts.internal': (a) => a.data.links?.counts.internal,
+  'links.counts.external': (a) => a.data.links?.counts.external,
+  'links.nofollow': (a) => a.data.links?.nofollow,
+  'structuredData.types': (a) => a.data.structuredData?.types.slice().sort().join(', '),
+  'structuredData.errors': (a) => a.data.structuredData?.errors,
+  'headers.xRobotsTag': (a) => a.data.headers?.xRobotsTag,
+  'headers.cacheControl': (a) => a.data.headers?.cacheControl,
+  'headers.contentEncoding': (a) => a.data.headers?.contentEncoding,
+  'headers.strictTransportSecurity': (a) => a.data.headers?.strictTransportSecurity,
+  'http.status': (a) => a.http?.status,
+  'http.finalUrl': (a) => a.http?.finalUrl,
+  'http.redirectCount': (a) => a.http?.redirectCount,
+};
+
+const CATEGORIES: ScoreCategory[] = ['basic', 'social', 'technical', 'images', 'keyword'];
+
+// Missing and empty values are the same thing to a reader of the diff
+const normalize = (value: ComparedValue | undefined): ComparedValue =>
+  value === undefined || value === '' ? null : value;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toRuleChange = (before: RuleResult | undefined, after: RuleResult | undefined): RuleChange => {
+  const current = (after ?? before) as RuleResult;
+  return {
+    id: current.id,
+    category: current.category,
+    severity: current.severity,
+    before: before?.status ?? null,
+    after: after?.status ?? null,
+    pointsDelta: round((after?.points ?? 0) - (before?.points ?? 0)),
+    message: current.message,
+  };
+};
+
+// Both snapshots should be scored with the same profile, otherwise score deltas
+// reflect the weights rather than the page.
+export const compareAnalyses = (before: SEOAnalysis, after: SEOAnalysis): AnalysisComparison => {
+  const fieldChanges: FieldChange[] = [];
+  for (const [field, read] of Object.entries(COMPARED_FIELDS)) {
+    const previous = normalize(read(before));
+    const next = normalize(read(after));
+    if (previous !== next) fieldChanges.push({ field, before: previous, after: next });
+  }
+
+  const beforeRules = new Map(before.score.rules.map((rule) => [rule.id, rule]));
+  const afterRules = new Map(after.score.rules.map((rule) => [rule.id, rule]));
+  const ids = Array.from(new Set([...beforeRules.keys(), ...afterRules.keys()]));
+
+  const newlyFailing: RuleChange[] = [];
+  const newlyPassing: RuleChange[] = [];
+  const statusChanges: RuleChange[] = [];
+  for (const id of ids) {
+    const previous = beforeRules.get(id);
+    const next = afterRules.get(id);
+    if (previous?.status === next?.status) continue;
+    // A rule one side could not check (e.g. posted HTML has no headers) did not change
+    if (previous?.status === 'n/a' || next?.status === 'n/a') continue;
+
+    const change = toRuleChange(previous, next);
+    if (next?.status === 'pass') newlyPassing.push(change);
+    // A rule that did not exist before and fails now is a new failure too
+    else if (next && (!previous || previous.status === 'pass')) newlyFailing.push(change);
+    else statusChanges.push(change);
+  }
+
+  return {
+    fieldChanges,
+    newlyFailing,
+    newlyPassing,
+    statusChanges,
+    scoreDelta: {
+      total: after.score.total - before.score.total,
+      breakdown: Object.fromEntries(
+        // Scores stored before the keyword category have no keyword entry
+        CATEGORIES.map((category) => [category, (after.score.breakdown[category] ?? 0) - (before.score.breakdown[category] ?? 0)])
+      ) as Record<ScoreCategory, number>,
+    },
+  };
+};
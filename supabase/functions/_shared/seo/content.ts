@@ -0,0 +1,122 @@
+/// <reference lib="dom" />
+import { extractVisibleText, splitWords } from './text.ts';
+import type { ContentAudit } from './types.ts';
+
+// Below this many words of main content a page rarely answers a query on its own
+export const THIN_CONTENT_WORDS = 300;
+
+// Pages whose visible text is a smaller share of the markup are mostly code and boilerplate
+export const MIN_TEXT_TO_HTML_RATIO = 10;
+
+// Site chrome repeated on every page; it says nothing about this page's content
+const BOILERPLATE_TAGS = new Set(['NAV', 'HEADER', 'FOOTER', 'ASIDE', 'FORM', 'DIALOG']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog']);
+const BOILERPLATE_NAMES = new Set([
+  'nav', 'navbar', 'menu', 'sidebar', 'footer', 'header', 'breadcrumb', 'breadcrumbs', 'cookie', 'cookies',
+  'consent', 'share', 'social', 'related', 'comment', 'comments',
+]);
+
+// Whole class tokens and the id only: "page-wrapper with-header" is a layout class, not a header
+const isBoilerplate = (element: Element) =>
+  BOILERPLATE_TAGS.has(element.tagName.toUpperCase()) ||
+  BOILERPLATE_ROLES.has(element.getAttribute('role') || '') ||
+  [element.getAttribute('id') || '', ...(element.getAttribute('class') || '').split(/\s+/)]
+    .some((name) => BOILERPLATE_NAMES.has(name.toLowerCase()));
+
+// The page's own landmark when it has one; a lone <article> next; the body otherwise
+const findMainRoot = (doc: Document): Element | null => {
+  const main = doc.querySelector('main, [role="main"]');
+  if (main) return main;
+  const articles = doc.querySelectorAll('article');
+  return articles.length === 1 ? articles[0] : doc.body;
+};
+
+// Boilerplate below root, except an element holding most of root's text: that is the
+// content itself, whatever its markup suggests
+const createBoilerplateFilter = (root: Element) => {
+  const rootLength = extractVisibleText(root).length;
+  const verdicts = new Map<Element, boolean>();
+  return (element: Element) => {
+    if (element === root || !isBoilerplate(element)) return false;
+    if (!verdicts.has(element)) verdicts.set(element, extractVisibleText(element).length <= rootLength / 2);
+    return verdicts.get(element) as boolean;
+  };
+};
+
+const isInsideBoilerplate = (element: Element, root: Element, isExcluded: (element: Element) => boolean) => {
+  for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+    if (isExcluded(current)) return true;
+  }
+  return false;
+};
+
+const mainParagraphs = (root: Element, isExcluded: (element: Element) => boolean) =>
+  Array.from(root.querySelectorAll('p'))
+    .filter((paragraph) => !isInsideBoilerplate(paragraph, root, isExcluded))
+    .map((paragraph) => paragraph.textContent || '')
+    .filter((text) => splitWords(text).length > 0);
+
+// Non-empty paragraphs of the main content in document order, site chrome left out
+export const findMainParagraphs = (doc: Document): string[] => {
+  const root = findMainRoot(doc);
+  return root ? mainParagraphs(root, createBoilerplateFilter(root)) : [];
+};
+
+// Vowel groups, less a silent final e and the -es/-ed endings that add none; close
+// enough for readability formulas, which were fitted on counts like these
+export const countSyllables = (word: string) => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// The Flesch formulas were fitted on English; other languages get no score rather than a wrong one
+const isEnglish = (lang: string) => !lang || /^en(-|$)/i.test(lang);
+
+export const auditContent = (doc: Document, lang = ''): ContentAudit => {
+  const root = findMainRoot(doc);
+  const isExcluded = root ? createBoilerplateFilter(root) : () => false;
+  const text = extractVisibleText(root, isExcluded);
+  const words = splitWords(text);
+
+  const paragraphCount = root ? mainParagraphs(root, isExcluded).length : 0;
+  const sentenceCount = words.length === 0 ? 0 : Math.max(1, (text.match(/[.!?]+(?=\s|$)/g) || []).length);
+
+  let readability: ContentAudit['readability'];
+  if (words.length > 0 && isEnglish(lang)) {
+    const wordsPerSentence = words.length / sentenceCount;
+    const syllablesPerWord = words.reduce((sum, word) => sum + countSyllables(word), 0) / words.length;
+    readability = {
+      fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+      gradeLevel: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    };
+  }
+
+  // Serialized markup stands in for the response body, which the analyzer never sees
+  const htmlLength = doc.documentElement?.outerHTML.length ?? 0;
+  const textLength = extractVisibleText(doc.body).length;
+  const textToHtmlRatio = htmlLength === 0 ? 0 : round((textLength / htmlLength) * 100);
+
+  const thin = words.length < THIN_CONTENT_WORDS;
+  const warnings: string[] = [];
+  if (thin) warnings.push(`Only ${words.length} words of main content, fewer than ${THIN_CONTENT_WORDS}`);
+  if (textToHtmlRatio < MIN_TEXT_TO_HTML_RATIO) {
+    warnings.push(`Text is ${textToHtmlRatio}% of the HTML, below ${MIN_TEXT_TO_HTML_RATIO}%`);
+  }
+  if (readability && readability.fleschReadingEase < 30) {
+    warnings.push(`Hard to read: Flesch reading ease ${readability.fleschReadingEase}`);
+  }
+
+  return {
+    wordCount: words.length,
+    paragraphCount,
+    sentenceCount,
+    ...(readability ? { readability } : {}),
+    textToHtmlRatio,
+    thin,
+    warnings,
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicates, fingerprintDistance, fingerprintText, NEAR_DUPLICATE_DISTANCE } from './duplicates.ts';
+
+const ARTICLE =
+  'Solid oak tables are built to last for generations when they are cared for properly. ' +
+  'Wipe spills at once, keep the table out of direct sunlight and away from radiators, ' +
+  'and oil the surface twice a year with a food safe finish. Small scratches can be sanded ' +
+  'out by hand, while deep dents respond well to a damp cloth and a warm iron. Always work ' +
+  'along the grain, test any product on the underside first and let the finish cure overnight.';
+
+const UNRELATED =
+  'Our delivery team brings every order to the room of your choice and removes the packaging. ' +
+  'Deliveries run from Monday to Saturday between eight and six, and you can pick a two hour ' +
+  'window when you check out. If nobody is home we leave a card and call to arrange another day. ' +
+  'Large items need a clear path of at least ninety centimetres through doors and stairways.';
+
+describe('fingerprintText', () => {
+  it('needs enough words to fingerprint', () => {
+    expect(fingerprintText('Too short to mean anything')).toBeUndefined();
+    expect(fingerprintText(ARTICLE)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('keeps near-identical texts within the near-duplicate distance', () => {
+    const original = fingerprintText(ARTICLE) as string;
+    const edited = fingerprintText(ARTICLE.replace('twice a year', 'once a year')) as string;
+    const unrelated = fingerprintText(UNRELATED) as string;
+    expect(fingerprintDistance(original, original)).toBe(0);
+    expect(fingerprintDistance(original, edited)).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE);
+    expect(fingerprintDistance(original, unrelated)).toBeGreaterThan(NEAR_DUPLICATE_DISTANCE);
+  });
+});
+
+describe('findDuplicates', () => {
+  const report = findDuplicates([
+    { url: 'https://example.com/a', title: 'Oak tables', h1: 'Tables', contentHash: fingerprintText(ARTICLE) },
+    { url: 'https://example.com/b', title: ' oak  TABLES ', h1: '', contentHash: fingerprintText(ARTICLE.replace('twice', 'three times')) },
+    { url: 'https://example.com/c', title: 'Delivery', h1: '', contentHash: fingerprintText(UNRELATED) },
+    { url: 'https://example.com/d', title: 'Care guide', h1: 'Tables' },
+  ]);
+
+  it('groups exact matches after trimming and case folding', () => {
+    expect(report.title).toEqual([
+      { field: 'title', value: 'Oak tables', urls: ['https://example.com/a', 'https://example.com/b'] },
+    ]);
+    expect(report.h1.map((cluster) => cluster.urls)).toEqual([['https://example.com/a', 'https://example.com/d']]);
+  });
+
+  it('ignores empty values', () => {
+    expect(report.description).toEqual([]);
+    expect(report.h1).toHaveLength(1);
+  });
+
+  it('clusters pages with near-identical text only', () => {
+    expect(report.nearDuplicates).toHaveLength(1);
+    expect(report.nearDuplicates[0].urls).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(report.nearDuplicates[0].similarity).toBeGreaterThanOrEqual(Math.round((1 - NEAR_DUPLICATE_DISTANCE / 64) * 100));
+  });
+
+  it('counts each affected page once', () => {
+    expect(report.affectedPages).toBe(3);
+  });
+});
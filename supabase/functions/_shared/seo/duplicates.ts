@@ -0,0 +1,125 @@
+import { splitWords } from './text.ts';
+import type { DuplicateCandidate, DuplicateCluster, DuplicateField, DuplicateReport, NearDuplicateCluster } from './types.ts';
+
+// Word 5-grams are long enough that shared boilerplate alone rarely makes pages match
+const SHINGLE_SIZE = 5;
+
+// Fingerprints at most this many bits apart (of 64) count as near-duplicates; unrelated
+// texts differ in about 32 bits, so this leaves a wide margin
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+// Below this many words a page has too little text for its fingerprint to mean anything
+const MIN_FINGERPRINT_WORDS = 20;
+
+// 32-bit FNV-1a; two offsets give the two halves of the 64-bit simhash without BigInt
+const fnv1a = (text: string, offset: number) => {
+  let hash = offset;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+const HASH_OFFSETS = [0x811c9dc5, 0x050c5d1f];
+
+const toHex = (value: number) => value.toString(16).padStart(8, '0');
+
+// Simhash over word shingles: similar texts get fingerprints that differ in few bits
+export const fingerprintText = (text: string): string | undefined => {
+  const words = splitWords(text);
+  if (words.length < MIN_FINGERPRINT_WORDS) return undefined;
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    HASH_OFFSETS.forEach((offset, half) => {
+      const hash = fnv1a(shingle, offset);
+      for (let bit = 0; bit < 32; bit++) {
+        weights[half * 32 + bit] += (hash >>> bit) & 1 ? 1 : -1;
+      }
+    });
+  }
+
+  const halves = [0, 1].map((half) =>
+    weights.slice(half * 32, half * 32 + 32).reduce((value, weight, bit) => (weight > 0 ? value | (1 << bit) : value), 0) >>> 0
+  );
+  return halves.map(toHex).join('');
+};
+
+const popcount = (value: number) => {
+  let count = 0;
+  for (let v = value >>> 0; v; v &= v - 1) count++;
+  return count;
+};
+
+export const fingerprintDistance = (a: string, b: string) =>
+  popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+  popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+
+const normalizeValue = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Exact matches after trimming and case folding; empty values are a different problem
+const groupExact = (pages: DuplicateCandidate[], field: DuplicateField): DuplicateCluster[] => {
+  const groups = new Map<string, DuplicateCluster>();
+  for (const page of pages) {
+    const raw = page[field] || '';
+    const key = normalizeValue(raw);
+    if (!key) continue;
+    const cluster = groups.get(key) ?? { field, value: raw.replace(/\s+/g, ' ').trim(), urls: [] };
+    cluster.urls.push(page.url);
+    groups.set(key, cluster);
+  }
+  return Array.from(groups.values())
+    .filter((cluster) => cluster.urls.length > 1)
+    .sort((a, b) => b.urls.length - a.urls.length);
+};
+
+// Single-link clustering: pages join a cluster when close to any page already in it
+const groupNear = (pages: DuplicateCandidate[]): NearDuplicateCluster[] => {
+  const fingerprinted = pages.filter((page): page is DuplicateCandidate & { contentHash: string } => !!page.contentHash);
+  const parent = fingerprinted.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  // Largest distance of a link that pulled each page into a cluster
+  const linkDistance = new Map<number, number>();
+  for (let i = 0; i < fingerprinted.length; i++) {
+    for (let j = i + 1; j < fingerprinted.length; j++) {
+      const distance = fingerprintDistance(fingerprinted[i].contentHash, fingerprinted[j].contentHash);
+      if (distance > NEAR_DUPLICATE_DISTANCE) continue;
+      parent[find(j)] = find(i);
+      linkDistance.set(i, Math.max(distance, linkDistance.get(i) ?? 0));
+      linkDistance.set(j, Math.max(distance, linkDistance.get(j) ?? 0));
+    }
+  }
+
+  const clusters = new Map<number, { urls: string[]; distance: number }>();
+  fingerprinted.forEach((page, index) => {
+    const distance = linkDistance.get(index);
+    if (distance === undefined) return;
+    const root = find(index);
+    const cluster = clusters.get(root) ?? { urls: [], distance: 0 };
+    cluster.urls.push(page.url);
+    cluster.distance = Math.max(cluster.distance, distance);
+    clusters.set(root, cluster);
+  });
+
+  return Array.from(clusters.values())
+    .map(({ urls, distance }) => ({ urls, similarity: Math.round((1 - distance / 64) * 100) }))
+    .sort((a, b) => b.urls.length - a.urls.length);
+};
+
+export const findDuplicates = (pages: DuplicateCandidate[]): DuplicateReport => {
+  const title = groupExact(pages, 'title');
+  const description = groupExact(pages, 'description');
+  const h1 = groupExact(pages, 'h1');
+  const nearDuplicates = groupNear(pages);
+  const clusters = [...title, ...description, ...h1];
+
+  return {
+    title,
+    description,
+    h1,
+    nearDuplicates,
+    affectedPages: new Set([...clusters, ...nearDuplicates].flatMap((cluster) => cluster.urls)).size,
+  };
+};
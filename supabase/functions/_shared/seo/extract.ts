@@ -0,0 +1,76 @@
+/// <reference lib="dom" />
+import { auditContent } from './content.ts';
+import { extractHeadings } from './headings.ts';
+import { extractHreflang } from './hreflang.ts';
+import { extractImages } from './images.ts';
+import { extractLinks } from './links.ts';
+import { fingerprintText } from './duplicates.ts';
+import { auditSerp } from './serp.ts';
+import { auditOpenGraph, auditTwitterCard } from './social.ts';
+import { extractStructuredData } from './structured-data.ts';
+import { extractVisibleText } from './text.ts';
+import type { SEOData } from './types.ts';
+
+// Takes an already-parsed document so callers can bring their own parser:
+// the browser uses the native DOMParser, the edge function uses deno-dom.
+export const extractMetaData = (doc: Document, url: string): SEOData => {
+  const getMetaContent = (name: string, property?: string) => {
+    if (property) {
+      const element = doc.querySelector(`meta[property="${property}"]`);
+      return element?.getAttribute('content') || '';
+    }
+    const element = doc.querySelector(`meta[name="${name}"]`) ||
+                   doc.querySelector(`meta[property="${name}"]`);
+    return element?.getAttribute('content') || '';
+  };
+
+  const title = doc.querySelector('title')?.textContent || '';
+  const description = getMetaContent('description');
+  const canonical = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || '';
+  const h1 = doc.querySelector('h1')?.textContent || '';
+  const htmlElement = doc.querySelector('html');
+  const lang = htmlElement?.getAttribute('lang') || '';
+  const contentHash = fingerprintText(extractVisibleText(doc.body));
+  const openGraph = auditOpenGraph(doc, url, canonical);
+  const twitter = auditTwitterCard(doc);
+  const image = openGraph.images[0];
+
+  return {
+    title,
+    description,
+    ogTitle: getMetaContent('', 'og:title'),
+    ogDescription: getMetaContent('', 'og:description'),
+    ogImage: getMetaContent('', 'og:image'),
+    ogType: getMetaContent('', 'og:type'),
+    twitterCard: getMetaContent('twitter:card'),
+    twitterTitle: getMetaContent('twitter:title'),
+    twitterDescription: getMetaContent('twitter:description'),
+    twitterImage: getMetaContent('twitter:image'),
+    ogUrl: getMetaContent('', 'og:url'),
+    ogSiteName: getMetaContent('', 'og:site_name'),
+    ogLocale: getMetaContent('', 'og:locale'),
+    ogImageWidth: image?.width || '',
+    ogImageHeight: image?.height || '',
+    ogImageAlt: image?.alt || '',
+    twitterSite: getMetaContent('twitter:site'),
+    twitterCreator: getMetaContent('twitter:creator'),
+    canonical,
+    keywords: getMetaContent('keywords'),
+    h1,
+    metaRobots: getMetaContent('robots'),
+    lang,
+    viewport: getMetaContent('viewport'),
+    charset: doc.querySelector('meta[charset]')?.getAttribute('charset') || '',
+    headings: extractHeadings(doc),
+    images: extractImages(doc, url),
+    links: extractLinks(doc, url),
+    structuredData: extractStructuredData(doc),
+    serp: auditSerp(title, description),
+    ...(contentHash ? { contentHash } : {}),
+    hreflang: extractHreflang(doc, url),
+    content: auditContent(doc, lang),
+    openGraph,
+    twitter,
+    url
+  };
+};
@@ -0,0 +1,86 @@
+import type { HeaderAudit } from './types.ts';
+
+// HSTS max-age below six months is not accepted for browser preload lists
+export const MIN_HSTS_MAX_AGE = 15552000;
+
+const COMPRESSED_ENCODINGS = ['gzip', 'br', 'deflate', 'zstd'];
+
+// X-Robots-Tag may repeat and may be scoped to a crawler ("googlebot: noindex").
+// Directives for generic or Google crawlers count; other bots are ignored.
+const parseRobotsDirectives = (value: string) => {
+  const directives = new Set<string>();
+  for (const part of value.split(',')) {
+    const scoped = part.match(/^\s*([\w-]+)\s*:\s*(.+)$/);
+    let directive = part.trim().toLowerCase();
+    if (scoped && !/^unavailable_after$/i.test(scoped[1])) {
+      if (!/^(googlebot|\*)$/i.test(scoped[1])) continue;
+      directive = scoped[2].trim().toLowerCase();
+    }
+    if (directive) directives.add(directive);
+  }
+  return directives;
+};
+
+const parseLinkCanonical = (value: string) => {
+  for (const link of value.split(/,(?=\s*<)/)) {
+    const match = link.match(/<([^>]+)>(.*)/);
+    const rel = match?.[2].match(/;\s*rel\s*=\s*"?([^";]*)"?/i)?.[1] || '';
+    if (match && rel.toLowerCase().split(/\s+/).includes('canonical')) {
+      return match[1];
+    }
+  }
+  return '';
+};
+
+export const auditHeaders = (headers: Record<string, string>, url: string): HeaderAudit => {
+  const get = (name: string) => {
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+    return key ? headers[key] : '';
+  };
+
+  const xRobotsTag = get('x-robots-tag');
+  const robots = parseRobotsDirectives(xRobotsTag);
+  const cacheControl = get('cache-control');
+  const etag = get('etag');
+  const lastModified = get('last-modified');
+  const contentEncoding = get('content-encoding');
+  const strictTransportSecurity = get('strict-transport-security');
+  const contentTypeCharset = get('content-type').match(/charset=["']?([\w-]+)/i)?.[1] || '';
+  const linkCanonical = parseLinkCanonical(get('link'));
+
+  const maxAgeMatch = strictTransportSecurity.match(/max-age=["']?(\d+)/i);
+  const hstsMaxAge = maxAgeMatch ? parseInt(maxAgeMatch[1], 10) : null;
+  const noStore = /no-store/i.test(cacheControl);
+  const cacheable = !noStore && (!!cacheControl || !!etag || !!lastModified);
+  const compressed = contentEncoding
+    .toLowerCase()
+    .split(',')
+    .some((encoding) => COMPRESSED_ENCODINGS.includes(encoding.trim()));
+  const isHttps = url.startsWith('https:');
+
+  const warnings: string[] = [];
+  if (robots.has('noindex') || robots.has('none')) warnings.push('X-Robots-Tag blocks indexing');
+  if (!compressed) warnings.push('Response is not compressed (no gzip/br Content-Encoding)');
+  if (noStore) warnings.push('Cache-Control: no-store prevents caching');
+  else if (!cacheable) warnings.push('No Cache-Control, ETag or Last-Modified header');
+  if (isHttps && !strictTransportSecurity) warnings.push('Missing Strict-Transport-Security header');
+  if (hstsMaxAge !== null && hstsMaxAge < MIN_HSTS_MAX_AGE) warnings.push('HSTS max-age is shorter than 6 months');
+  if (!contentTypeCharset) warnings.push('Content-Type header does not declare a charset');
+
+  return {
+    xRobotsTag,
+    noindex: robots.has('noindex') || robots.has('none'),
+    nofollow: robots.has('nofollow') || robots.has('none'),
+    cacheControl,
+    etag,
+    lastModified,
+    cacheable,
+    contentEncoding,
+    compressed,
+    strictTransportSecurity,
+    hstsMaxAge,
+    contentTypeCharset,
+    linkCanonical,
+    warnings,
+  };
+};
@@ -0,0 +1,62 @@
+/// <reference lib="dom" />
+import type { HeadingAudit, HeadingNode } from './types.ts';
+
+// Longer headings get cut off in SERP sitelinks and read as paragraphs
+export const MAX_HEADING_LENGTH = 70;
+
+const normalizeText = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+export const extractHeadings = (doc: Document): HeadingAudit => {
+  const counts = { h1: 0, h2: 0, h3: 0, h4: 0, h5: 0, h6: 0 };
+  const outline: HeadingNode[] = [];
+  const skippedLevels: HeadingAudit['skippedLevels'] = [];
+  const tooLong: string[] = [];
+  let emptyCount = 0;
+
+  // Open ancestors of the next heading, deepest last
+  const stack: HeadingNode[] = [];
+  let previousLevel = 0;
+
+  doc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((element) => {
+    const level = parseInt(element.tagName.charAt(1), 10);
+    const text = normalizeText(element.textContent);
+    counts[`h${level}` as keyof typeof counts]++;
+
+    if (!text) emptyCount++;
+    if (text.length > MAX_HEADING_LENGTH) tooLong.push(text);
+    if (level > previousLevel + 1) {
+      skippedLevels.push({ from: previousLevel, to: level, text });
+    }
+    previousLevel = level;
+
+    const node: HeadingNode = { level, text, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      outline.push(node);
+    }
+    stack.push(node);
+  });
+
+  const warnings: string[] = [];
+  if (counts.h1 === 0) warnings.push('No h1 heading found');
+  if (counts.h1 > 1) warnings.push(`${counts.h1} h1 headings found, expected one`);
+  for (const skip of skippedLevels) {
+    warnings.push(`Heading level skipped: ${skip.from ? `h${skip.from}` : 'document start'} → h${skip.to}`);
+  }
+  if (emptyCount > 0) warnings.push(`${emptyCount} empty heading${emptyCount === 1 ? '' : 's'}`);
+  if (tooLong.length > 0) {
+    warnings.push(`${tooLong.length} heading${tooLong.length === 1 ? '' : 's'} longer than ${MAX_HEADING_LENGTH} characters`);
+  }
+
+  return {
+    outline,
+    counts,
+    multipleH1: counts.h1 > 1,
+    skippedLevels,
+    emptyCount,
+    tooLong,
+    warnings,
+  };
+};
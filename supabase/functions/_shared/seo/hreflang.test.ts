@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { checkHreflangReciprocity, extractHreflang, validateHreflang } from './hreflang.ts';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const alternates = (links: [string, string][]) =>
+  parse(`<html><head>${links.map(([code, href]) => `<link rel="alternate" hreflang="${code}" href="${href}">`).join('')}</head></html>`);
+
+describe('validateHreflang', () => {
+  it('accepts languages with an optional script and region', () => {
+    expect(validateHreflang('en')).toBeUndefined();
+    expect(validateHreflang('zh-Hant-TW')).toBeUndefined();
+    expect(validateHreflang('x-default')).toBeUndefined();
+  });
+
+  it('explains common mistakes', () => {
+    expect(validateHreflang('en_US')).toMatch(/uses "_"/);
+    expect(validateHreflang('en-uk')).toMatch(/use "gb"/);
+    expect(validateHreflang('us')).toMatch(/is a region/);
+  });
+});
+
+describe('extractHreflang', () => {
+  it('matches the self reference however the page URL is written', () => {
+    const audit = extractHreflang(
+      alternates([['en', '/'], ['de', '/de/'], ['x-default', '/']]),
+      'https://example.com'
+    );
+    expect(audit.selfReference).toBe(true);
+    expect(audit.xDefault).toBe(true);
+    expect(audit.warnings).toEqual([]);
+  });
+
+  it('reports codes pointing at more than one URL', () => {
+    const audit = extractHreflang(alternates([['en', '/'], ['en', '/en/']]), 'https://example.com/');
+    expect(audit.conflicting).toEqual(['en']);
+  });
+});
+
+describe('checkHreflangReciprocity', () => {
+  it('reports alternates that do not link back', () => {
+    const en = extractHreflang(alternates([['en', '/'], ['de', '/de/'], ['fr', 'https://example.fr/']]), 'https://example.com/');
+    const de = extractHreflang(alternates([['de', '/de/']]), 'https://example.com/de/');
+    const result = checkHreflangReciprocity([
+      { url: 'https://example.com/', alternates: en.entries },
+      { url: 'https://example.com/de/', alternates: de.entries },
+    ]);
+    expect(result.checked).toBe(1);
+    expect(result.unverified).toBe(1);
+    expect(result.missingReturnLinks).toEqual([
+      { from: 'https://example.com/', to: 'https://example.com/de/', hreflang: 'de' },
+    ]);
+  });
+
+  it('accepts pages that name each other', () => {
+    const en = extractHreflang(alternates([['en', '/'], ['de', '/de/']]), 'https://example.com/');
+    const de = extractHreflang(alternates([['en', '/'], ['de', '/de/']]), 'https://example.com/de/');
+    const result = checkHreflangReciprocity([
+      { url: 'https://example.com', alternates: en.entries },
+      { url: 'https://example.com/de/', alternates: de.entries },
+    ]);
+    expect(result.checked).toBe(2);
+    expect(result.missingReturnLinks).toEqual([]);
+  });
+});
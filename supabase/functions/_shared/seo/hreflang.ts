@@ -0,0 +1,114 @@
+/// <reference lib="dom" />
+import { normalizeUrl } from './url.ts';
+import type { HreflangAudit, HreflangEntry, HreflangPage, HreflangReciprocity } from './types.ts';
+
+// ISO 639-1 language codes; Google does not accept ISO 639-2/3 codes in hreflang
+const LANGUAGES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el ' +
+  'en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ' +
+  'ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na ' +
+  'nb nd ne ng nl nn no nr nv ny oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so ' +
+  'sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+// ISO 3166-1 alpha-2 region codes
+const REGIONS = new Set((
+  'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt bv bw by bz ' +
+  'ca cc cd cf cg ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh er es et fi fj fk fm fo ' +
+  'fr ga gb gd ge gf gg gh gi gl gm gn gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je ' +
+  'jm jo jp ke kg kh ki km kn kp kr kw ky kz la lb lc li lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo ' +
+  'mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no np nr nu nz om pa pe pf pg ph pk pl pm pn pr ps pt pw ' +
+  'py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv sx sy sz tc td tf tg th tj tk tl tm ' +
+  'tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws ye yt za zm zw'
+).split(' '));
+
+// Common mistakes get a pointed hint instead of a generic "unknown region"
+const REGION_HINTS: Record<string, string> = { uk: 'use "gb" for the United Kingdom', eu: 'regions must be countries, not "eu"' };
+
+export const validateHreflang = (code: string): string | undefined => {
+  const value = code.trim().toLowerCase();
+  if (value === 'x-default') return undefined;
+  if (value.includes('_')) return `"${code}" uses "_"; separate language and region with "-"`;
+
+  // language, optional script (zh-Hant), optional region
+  const match = value.match(/^([a-z]{2,3})(?:-([a-z]{4}))?(?:-([a-z]{2}))?$/);
+  if (!match) return `"${code}" is not a language or language-region code`;
+  const [, language, , region] = match;
+  if (!LANGUAGES.has(language)) {
+    return REGIONS.has(language) && !region
+      ? `"${code}" is a region; hreflang must start with a language`
+      : `"${language}" is not an ISO 639-1 language code`;
+  }
+  if (region && !REGIONS.has(region)) return `"${region}" is not an ISO 3166-1 region code${REGION_HINTS[region] ? `, ${REGION_HINTS[region]}` : ''}`;
+  return undefined;
+};
+
+export const extractHreflang = (doc: Document, url: string): HreflangAudit => {
+  const entries: HreflangEntry[] = [];
+  doc.querySelectorAll('link[rel~="alternate"][hreflang]').forEach((element) => {
+    const hreflang = (element.getAttribute('hreflang') || '').trim();
+    const rawHref = element.getAttribute('href') || '';
+    let href = rawHref;
+    let error = validateHreflang(hreflang);
+    try {
+      href = new URL(rawHref, url).toString();
+    } catch {
+      error = error ?? `"${rawHref}" is not a valid URL`;
+    }
+    if (!rawHref) error = error ?? 'Missing href';
+    entries.push({ hreflang, href, valid: !error, ...(error ? { error } : {}) });
+  });
+
+  const warnings: string[] = [];
+  const self = normalizeUrl(url);
+  const selfReference = entries.some((entry) => normalizeUrl(entry.href) === self);
+  const xDefault = entries.some((entry) => entry.hreflang.toLowerCase() === 'x-default');
+
+  // The same code pointing at two URLs leaves search engines to guess
+  const hrefsByCode = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    const code = entry.hreflang.toLowerCase();
+    hrefsByCode.set(code, (hrefsByCode.get(code) ?? new Set()).add(normalizeUrl(entry.href)));
+  }
+  const conflicting = Array.from(hrefsByCode.entries())
+    .filter(([, hrefs]) => hrefs.size > 1)
+    .map(([code]) => code);
+
+  if (entries.length > 0) {
+    const invalid = entries.filter((entry) => !entry.valid).length;
+    if (invalid > 0) warnings.push(`${invalid} hreflang annotations are invalid`);
+    if (!selfReference) warnings.push('No hreflang annotation points back to this page');
+    if (!xDefault) warnings.push('No x-default annotation for unmatched languages');
+    if (conflicting.length > 0) warnings.push(`Codes pointing at more than one URL: ${conflicting.join(', ')}`);
+  }
+
+  return { entries, selfReference, xDefault, conflicting, warnings };
+};
+
+// Every alternate a page names must name the page back; alternates outside the
+// analyzed set cannot be verified and are only counted.
+export const checkHreflangReciprocity = (pages: HreflangPage[]): HreflangReciprocity => {
+  const byUrl = new Map(pages.map((page) => [normalizeUrl(page.url), page]));
+  const missingReturnLinks: HreflangReciprocity['missingReturnLinks'] = [];
+  let checked = 0;
+  let unverified = 0;
+
+  for (const page of pages) {
+    const from = normalizeUrl(page.url);
+    for (const entry of page.alternates) {
+      const to = normalizeUrl(entry.href);
+      if (!entry.valid || to === from) continue;
+      const target = byUrl.get(to);
+      if (!target) {
+        unverified++;
+        continue;
+      }
+      checked++;
+      if (!target.alternates.some((alternate) => normalizeUrl(alternate.href) === from)) {
+        missingReturnLinks.push({ from: page.url, to: target.url, hreflang: entry.hreflang });
+      }
+    }
+  }
+
+  return { checked, unverified, missingReturnLinks };
+};
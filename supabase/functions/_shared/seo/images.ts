@@ -0,0 +1,48 @@
+/// <reference lib="dom" />
+import type { ImageAudit, ImageInfo } from './types.ts';
+
+const getExtension = (src: string) => {
+  const dataUri = src.match(/^data:image\/([\w.+-]+)/i);
+  if (dataUri) return dataUri[1].toLowerCase().replace('+xml', '');
+  try {
+    const pathname = new URL(src).pathname;
+    return pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() || '';
+  } catch {
+    return '';
+  }
+};
+
+const resolveSrc = (src: string, baseUrl: string) => {
+  if (!src || src.startsWith('data:')) return src;
+  try {
+    return new URL(src, baseUrl).toString();
+  } catch {
+    return src;
+  }
+};
+
+export const extractImages = (doc: Document, url: string): ImageAudit => {
+  const images: ImageInfo[] = Array.from(doc.querySelectorAll('img')).map((img) => {
+    const src = resolveSrc(img.getAttribute('src') || '', url);
+    return {
+      src,
+      alt: img.getAttribute('alt'),
+      width: img.getAttribute('width') || '',
+      height: img.getAttribute('height') || '',
+      loading: img.getAttribute('loading') || '',
+      hasSrcset: img.hasAttribute('srcset'),
+      extension: getExtension(src),
+    };
+  });
+
+  return {
+    images,
+    total: images.length,
+    missingAlt: images.filter((image) => image.alt === null).length,
+    decorative: images.filter((image) => image.alt !== null && image.alt.trim() === '').length,
+    // Without both dimensions the browser cannot reserve space, causing layout shift
+    missingDimensions: images.filter((image) => !image.width || !image.height).length,
+    lazyLoaded: images.filter((image) => image.loading === 'lazy').length,
+    withSrcset: images.filter((image) => image.hasSrcset).length,
+  };
+};
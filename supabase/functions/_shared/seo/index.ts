@@ -0,0 +1,70 @@
+/// <reference lib="dom" />
+import { extractMetaData } from './extract.ts';
+import { auditHeaders } from './headers.ts';
+import { auditKeyword } from './keyword.ts';
+import { buildIssues } from './issues.ts';
+import { calculateSEOScore, type ScoringOptions } from './score.ts';
+import type { RobotsAudit, SEOAnalysis } from './types.ts';
+
+export * from './types.ts';
+export { extractMetaData } from './extract.ts';
+export { auditHeaders, MIN_HSTS_MAX_AGE } from './headers.ts';
+export { extractHeadings, MAX_HEADING_LENGTH } from './headings.ts';
+export { extractImages } from './images.ts';
+export { extractLinks, classifyLink } from './links.ts';
+export { extractStructuredData, SCHEMA_RULES } from './structured-data.ts';
+export {
+  auditSerp,
+  auditSnippetText,
+  estimatePixelWidth,
+  findDuplicateWords,
+  TITLE_LIMITS,
+  DESCRIPTION_LIMITS,
+} from './serp.ts';
+export { calculateSEOScore, isKnownProfile, type ScoringOptions } from './score.ts';
+export { buildIssues, countIssues, SEVERITY_ORDER } from './issues.ts';
+export { compareAnalyses } from './compare.ts';
+export { buildRenderReport } from './render.ts';
+export {
+  parseSitemap,
+  checkSitemapUrl,
+  isValidLastmod,
+  MAX_SITEMAP_ENTRIES,
+  MAX_SITEMAP_BYTES,
+  type ParsedSitemap,
+} from './sitemap.ts';
+export {
+  parseRobotsTxt,
+  readRobotsSitemaps,
+  checkRobotsAccess,
+  auditRobots,
+  getProductToken,
+  DEFAULT_ROBOTS_USER_AGENTS,
+  MAX_ROBOTS_BYTES,
+} from './robots.ts';
+export { extractHreflang, validateHreflang, checkHreflangReciprocity } from './hreflang.ts';
+export { findDuplicates, fingerprintText, fingerprintDistance, NEAR_DUPLICATE_DISTANCE } from './duplicates.ts';
+export { extractVisibleText, splitWords } from './text.ts';
+export { auditOpenGraph, auditTwitterCard } from './social.ts';
+export { auditKeyword, MAX_KEYWORD_DENSITY, MIN_KEYWORD_DENSITY } from './keyword.ts';
+export { auditContent, countSyllables, THIN_CONTENT_WORDS, MIN_TEXT_TO_HTML_RATIO } from './content.ts';
+export { buildSiteReport, summarizePage, summarizeFailedPage } from './site-report.ts';
+export { SEO_RULES, SCORING_PROFILES, type SEORule, type RuleEvaluation } from './rules.ts';
+export { classifyRedirect, buildRedirectChain, isLongRedirectChain } from './redirects.ts';
+export { normalizeUrl, stripWww } from './url.ts';
+
+// Response headers and robots.txt are optional so markup can still be analyzed on its own
+export const analyzeDocument = (
+  doc: Document,
+  url: string,
+  headers?: Record<string, string>,
+  scoring?: ScoringOptions,
+  robots?: RobotsAudit
+): SEOAnalysis => {
+  const data = extractMetaData(doc, url);
+  if (scoring?.targetKeyword) data.keyword = auditKeyword(doc, data, scoring.targetKeyword);
+  if (headers) data.headers = auditHeaders(headers, url);
+  if (robots) data.robots = robots;
+  const score = calculateSEOScore(data, scoring);
+  return { data, score, issues: buildIssues(score) };
+};
@@ -0,0 +1,40 @@
+import { SEO_RULES } from './rules.ts';
+import type { RuleSeverity, SEOIssue, SEOScore } from './types.ts';
+
+// Most urgent first
+export const SEVERITY_ORDER: RuleSeverity[] = ['error', 'warning', 'notice'];
+
+// A partially passing rule is one step less urgent than an outright failure
+const downgrade = (severity: RuleSeverity): RuleSeverity =>
+  SEVERITY_ORDER[Math.min(SEVERITY_ORDER.indexOf(severity) + 1, SEVERITY_ORDER.length - 1)];
+
+export const buildIssues = (score: SEOScore): SEOIssue[] =>
+  score.rules
+    .filter((result) => result.status !== 'pass' && result.status !== 'n/a')
+    .map((result) => {
+      const rule = SEO_RULES.find((candidate) => candidate.id === result.id);
+      return {
+        issue: {
+          ruleId: result.id,
+          severity: result.status === 'warn' ? downgrade(result.severity) : result.severity,
+          category: result.category,
+          message: result.message,
+          selector: result.selector || rule?.selector || '',
+          observed: result.observed || 'missing',
+          expected: rule?.expected || '',
+          fix: rule?.fix || '',
+        },
+        // Points lost, so the costliest problems come first within a severity
+        lost: result.weight - result.points,
+      };
+    })
+    .sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.issue.severity) - SEVERITY_ORDER.indexOf(b.issue.severity) || b.lost - a.lost
+    )
+    .map(({ issue }) => issue);
+
+export const countIssues = (issues: SEOIssue[]): Record<RuleSeverity, number> => ({
+  error: issues.filter((issue) => issue.severity === 'error').length,
+  warning: issues.filter((issue) => issue.severity === 'warning').length,
+  notice: issues.filter((issue) => issue.severity === 'notice').length,
+});
@@ -0,0 +1,112 @@
+/// <reference lib="dom" />
+import { findMainParagraphs } from './content.ts';
+import { extractVisibleText, splitWords } from './text.ts';
+import type { KeywordAudit, KeywordPlacement, NgramCount, SEOData } from './types.ts';
+
+// Above this share of the body the phrase reads as stuffing; below the lower one it barely registers
+export const MAX_KEYWORD_DENSITY = 3;
+export const MIN_KEYWORD_DENSITY = 0.5;
+
+const TOP_NGRAMS = 5;
+
+// Function words that make up most of any English text and say nothing about its topic
+const STOP_WORDS = new Set((
+  'a about above after again against all am an and any are as at be because been before being below between both ' +
+  'but by can could did do does doing down during each few for from further had has have having he her here hers ' +
+  'him his how i if in into is it its just me more most my no nor not now of off on once only or other our ours out ' +
+  'over own same she should so some such than that the their theirs them then there these they this those through ' +
+  'to too under until up very was we were what when where which while who whom why will with would you your yours'
+).split(' '));
+
+// Word index of the first occurrence of phrase in words, or -1
+const findPhrase = (words: string[], phrase: string[]) => {
+  if (phrase.length === 0) return -1;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, offset) => words[i + offset] === word)) return i;
+  }
+  return -1;
+};
+
+const countPhrase = (words: string[], phrase: string[]) => {
+  let count = 0;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, offset) => words[i + offset] === word)) {
+      count++;
+      i += phrase.length - 1;
+    }
+  }
+  return count;
+};
+
+// position is the 0-based word index, so 0 means the text starts with the phrase
+const placement = (text: string, phrase: string[]): KeywordPlacement => {
+  const position = findPhrase(splitWords(text), phrase);
+  return position === -1 ? { found: false } : { found: true, position };
+};
+
+// Only the path counts; hyphens, underscores and slashes all separate words in a slug
+const urlWords = (url: string) => {
+  try {
+    return splitWords(new URL(url).pathname);
+  } catch {
+    return [];
+  }
+};
+
+// Phrases that neither start nor end with a stop word, most frequent first
+const topNgrams = (words: string[], size: number): NgramCount[] => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + size <= words.length; i++) {
+    const gram = words.slice(i, i + size);
+    if (STOP_WORDS.has(gram[0]) || STOP_WORDS.has(gram[size - 1]) || gram.some((word) => /^\d+$/.test(word))) continue;
+    const phrase = gram.join(' ');
+    counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_NGRAMS)
+    .map(([phrase, count]) => ({ phrase, count }));
+};
+
+export const auditKeyword = (doc: Document, data: SEOData, keyword: string): KeywordAudit => {
+  const phrase = splitWords(keyword);
+  const bodyWords = splitWords(extractVisibleText(doc.body));
+
+  // Paragraphs in the navigation or header are the same on every page, so only the main content counts
+  const firstParagraph = findMainParagraphs(doc)[0] || '';
+  const headings = Array.from(doc.querySelectorAll('h2, h3, h4, h5, h6')).map((heading) => heading.textContent || '');
+  const alts = (data.images?.images ?? []).map((image) => image.alt || '').filter(Boolean);
+  const slugPosition = findPhrase(urlWords(data.url), phrase);
+
+  const occurrences = phrase.length === 0 ? 0 : countPhrase(bodyWords, phrase);
+  const density = bodyWords.length === 0
+    ? 0
+    : Math.round(((occurrences * phrase.length) / bodyWords.length) * 1000) / 10;
+
+  const audit: KeywordAudit = {
+    keyword: phrase.join(' '),
+    title: placement(data.title || '', phrase),
+    description: placement(data.description || '', phrase),
+    h1: placement(data.h1 || '', phrase),
+    urlSlug: slugPosition === -1 ? { found: false } : { found: true, position: slugPosition },
+    firstParagraph: placement(firstParagraph, phrase),
+    headings: { total: headings.length, withKeyword: headings.filter((text) => placement(text, phrase).found).length },
+    imageAlts: { total: alts.length, withKeyword: alts.filter((alt) => placement(alt, phrase).found).length },
+    occurrences,
+    density,
+    topNgrams: {
+      unigrams: topNgrams(bodyWords, 1),
+      bigrams: topNgrams(bodyWords, 2),
+      trigrams: topNgrams(bodyWords, 3),
+    },
+    warnings: [],
+  };
+
+  const missing = (['title', 'description', 'h1', 'urlSlug', 'firstParagraph'] as const).filter((field) => !audit[field].found);
+  if (missing.length > 0) audit.warnings.push(`"${audit.keyword}" is missing from: ${missing.join(', ')}`);
+  if (occurrences === 0) audit.warnings.push(`"${audit.keyword}" does not appear in the body text`);
+  else if (density > MAX_KEYWORD_DENSITY) audit.warnings.push(`Keyword density ${density}% is above ${MAX_KEYWORD_DENSITY}%, which reads as stuffing`);
+  else if (density < MIN_KEYWORD_DENSITY) audit.warnings.push(`Keyword density ${density}% is below ${MIN_KEYWORD_DENSITY}%`);
+  return audit;
+};
@@ -0,0 +1,77 @@
+/// <reference lib="dom" />
+import { stripWww } from './url.ts';
+import type { LinkAudit, LinkInfo, LinkType } from './types.ts';
+
+// Anchor texts that say nothing about the target page
+const GENERIC_ANCHOR_TEXTS = [
+  'click here', 'click', 'here', 'read more', 'more', 'learn more', 'link', 'this link',
+  'this', 'continue', 'go', 'details', 'more info', 'info', 'see more',
+];
+
+const normalizeText = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+export const classifyLink = (href: string, pageUrl: string): { type: LinkType; resolved: string } => {
+  const raw = href.trim();
+  if (raw.startsWith('#')) return { type: 'anchor', resolved: raw };
+  if (/^mailto:/i.test(raw)) return { type: 'mailto', resolved: raw };
+  if (/^tel:/i.test(raw)) return { type: 'tel', resolved: raw };
+
+  let target: URL;
+  let page: URL;
+  try {
+    page = new URL(pageUrl);
+    target = new URL(raw, page);
+  } catch {
+    return { type: 'other', resolved: raw };
+  }
+  if (!/^https?:$/.test(target.protocol)) return { type: 'other', resolved: raw };
+
+  const resolved = target.toString();
+  if (stripWww(target.host) !== stripWww(page.host)) return { type: 'external', resolved };
+  if (target.hash && target.pathname === page.pathname && target.search === page.search) {
+    return { type: 'anchor', resolved };
+  }
+  return { type: 'internal', resolved };
+};
+
+// Accessible name of a link: its text, else the alt of an image inside it, else aria-label/title
+const getAnchorText = (anchor: Element) => {
+  const text = normalizeText(anchor.textContent);
+  if (text) return text;
+  const imgAlt = normalizeText(anchor.querySelector('img[alt]')?.getAttribute('alt') ?? null);
+  if (imgAlt) return imgAlt;
+  return normalizeText(anchor.getAttribute('aria-label') || anchor.getAttribute('title'));
+};
+
+export const extractLinks = (doc: Document, url: string): LinkAudit => {
+  const counts: Record<LinkType, number> = { internal: 0, external: 0, anchor: 0, mailto: 0, tel: 0, other: 0 };
+
+  const links: LinkInfo[] = Array.from(doc.querySelectorAll('a[href]')).map((anchor) => {
+    const { type, resolved } = classifyLink(anchor.getAttribute('href') || '', url);
+    const rel = (anchor.getAttribute('rel') || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const text = getAnchorText(anchor);
+    counts[type]++;
+
+    return {
+      href: resolved,
+      text,
+      type,
+      rel,
+      nofollow: rel.includes('nofollow'),
+      sponsored: rel.includes('sponsored'),
+      ugc: rel.includes('ugc'),
+      noopener: rel.includes('noopener'),
+      emptyText: !text,
+      genericText: GENERIC_ANCHOR_TEXTS.includes(text.toLowerCase()),
+    };
+  });
+
+  return {
+    links,
+    total: links.length,
+    counts,
+    nofollow: links.filter((link) => link.nofollow).length,
+    emptyText: links.filter((link) => link.emptyText).length,
+    genericText: links.filter((link) => link.genericText).length,
+  };
+};
@@ -0,0 +1,36 @@
+import { stripWww } from './url.ts';
+import type { RedirectHop, RedirectKind } from './types.ts';
+
+// Names the single most significant change a redirect makes, checked in the
+// order SEO audits usually care about: scheme, then host, then path.
+export const classifyRedirect = (from: string, to: string): RedirectKind => {
+  let source: URL;
+  let target: URL;
+  try {
+    source = new URL(from);
+    target = new URL(to, from);
+  } catch {
+    return 'other';
+  }
+
+  const samePath = source.pathname === target.pathname && source.search === target.search;
+
+  if (source.protocol === 'http:' && target.protocol === 'https:' &&
+      stripWww(source.host) === stripWww(target.host)) {
+    return 'https';
+  }
+  if (source.host !== target.host) {
+    return stripWww(source.host) === stripWww(target.host) ? 'www' : 'host';
+  }
+  if (!samePath && source.search === target.search &&
+      source.pathname.replace(/\/$/, '') === target.pathname.replace(/\/$/, '')) {
+    return 'trailing-slash';
+  }
+  return 'other';
+};
+
+export const buildRedirectChain = (hops: { url: string; status: number; location: string }[]): RedirectHop[] =>
+  hops.map((hop) => ({ ...hop, kind: classifyRedirect(hop.url, hop.location) }));
+
+// A single hop (e.g. http -> https) is normal; anything longer wastes crawl budget
+export const isLongRedirectChain = (hops: RedirectHop[]) => hops.length > 1;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDocument, buildRenderReport } from './index.ts';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+// A client-rendered app: the server sends an empty shell and scripts fill in the head
+const RAW = '<html><head></head><body><div id="root"></div></body></html>';
+const RENDERED = `<html><head>
+  <title>Pricing plans for small teams and startups</title>
+  <meta name="description" content="Compare plans, see what each includes and start a free trial today.">
+</head><body><div id="root"><h1>Pricing</h1></div></body></html>`;
+
+describe('buildRenderReport', () => {
+  const raw = analyzeDocument(parse(RAW), 'https://example.com/pricing');
+  const rendered = analyzeDocument(parse(RENDERED), 'https://example.com/pricing');
+  const report = buildRenderReport(raw, rendered, 'test', 120);
+
+  it('lists the fields only the rendered DOM has', () => {
+    expect(report.onlyRendered).toEqual(expect.arrayContaining(['title', 'description', 'h1']));
+  });
+
+  it('reports the rules the rendered DOM newly passes', () => {
+    expect(report.comparison.newlyPassing.map((change) => change.id)).toContain('title-present');
+  });
+
+  it('keeps the raw markup score alongside the rendered one', () => {
+    expect(report.rawScore).toBe(raw.score.total);
+    expect(rendered.score.total).toBeGreaterThan(report.rawScore);
+  });
+
+  it('reports nothing when both sides are the same', () => {
+    const same = buildRenderReport(rendered, rendered, 'test', 0);
+    expect(same.comparison.fieldChanges).toEqual([]);
+    expect(same.onlyRendered).toEqual([]);
+  });
+});
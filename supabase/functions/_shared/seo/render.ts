@@ -0,0 +1,19 @@
+import { compareAnalyses } from './compare.ts';
+import type { RenderReport, SEOAnalysis } from './types.ts';
+
+// raw is what a crawler that runs no JavaScript sees, rendered what a browser sees
+export const buildRenderReport = (
+  raw: SEOAnalysis,
+  rendered: SEOAnalysis,
+  renderer: string,
+  durationMs: number
+): RenderReport => {
+  const comparison = compareAnalyses(raw, rendered);
+  return {
+    renderer,
+    durationMs,
+    rawScore: raw.score.total,
+    comparison,
+    onlyRendered: comparison.fieldChanges.filter((change) => change.before === null).map((change) => change.field),
+  };
+};
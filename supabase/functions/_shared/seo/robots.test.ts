@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { auditRobots, checkRobotsAccess, getProductToken, parseRobotsTxt } from './robots.ts';
+
+const ROBOTS = `# Example
+User-agent: *
+Disallow: /private
+Allow: /private/press
+Disallow: /*.pdf$
+Disallow: /café
+Crawl-delay: 2
+
+User-agent: Googlebot
+User-agent: Googlebot-Image
+Disallow: /search
+Allow: /search
+Disallow: /no-google$
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+const robots = parseRobotsTxt(ROBOTS);
+const allowed = (path: string, userAgent = 'SEOInspector') =>
+  checkRobotsAccess(robots, `https://example.com${path}`, userAgent).allowed;
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agent lines and collects sitemaps', () => {
+    expect(robots.groups).toHaveLength(2);
+    expect(robots.groups[1].userAgents).toEqual(['googlebot', 'googlebot-image']);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+});
+
+describe('checkRobotsAccess', () => {
+  it('lets the longest matching pattern win', () => {
+    expect(allowed('/private/files')).toBe(false);
+    expect(allowed('/private/press/2024')).toBe(true);
+  });
+
+  it('lets Allow win a tie between patterns of the same length', () => {
+    expect(allowed('/search?q=oak', 'Googlebot')).toBe(true);
+  });
+
+  it('supports "*" wildcards and a trailing "$" anchor', () => {
+    expect(allowed('/docs/guide.pdf')).toBe(false);
+    expect(allowed('/docs/guide.pdf?download=1')).toBe(true);
+    expect(allowed('/no-google', 'Googlebot')).toBe(false);
+    expect(allowed('/no-google/page', 'Googlebot')).toBe(true);
+  });
+
+  it('compares paths percent-encoded on both sides', () => {
+    expect(allowed('/caf%C3%A9/menu')).toBe(false);
+  });
+
+  it('uses only the most specific group for a named crawler', () => {
+    const check = checkRobotsAccess(robots, 'https://example.com/private', 'Googlebot-Image');
+    expect(check.group).toBe('googlebot-image');
+    expect(check.allowed).toBe(true);
+  });
+
+  it('falls back to the "*" group and reports its crawl delay', () => {
+    const check = checkRobotsAccess(robots, 'https://example.com/', 'Bingbot');
+    expect(check.group).toBe('*');
+    expect(check.crawlDelay).toBe(2);
+  });
+
+  it('always allows robots.txt itself', () => {
+    const blocked = parseRobotsTxt('User-agent: *\nDisallow: /');
+    expect(checkRobotsAccess(blocked, 'https://example.com/robots.txt', 'Googlebot').allowed).toBe(true);
+    expect(checkRobotsAccess(blocked, 'https://example.com/', 'Googlebot').allowed).toBe(false);
+  });
+});
+
+describe('getProductToken', () => {
+  it('reads the crawler name from a full user-agent string', () => {
+    expect(getProductToken('Mozilla/5.0 (compatible; SEOInspector/1.0)')).toBe('SEOInspector');
+    expect(getProductToken('Googlebot/2.1')).toBe('Googlebot');
+  });
+});
+
+describe('auditRobots', () => {
+  it('treats a 5xx as disallowing the whole site', () => {
+    const audit = auditRobots('https://example.com/robots.txt', 503, '', 'https://example.com/');
+    expect(audit.availability).toBe('server-error');
+    expect(audit.checks.every((check) => !check.allowed)).toBe(true);
+  });
+
+  it('treats a 4xx as no restrictions', () => {
+    const audit = auditRobots('https://example.com/robots.txt', 404, '', 'https://example.com/');
+    expect(audit.availability).toBe('missing');
+    expect(audit.checks.every((check) => check.allowed)).toBe(true);
+  });
+});
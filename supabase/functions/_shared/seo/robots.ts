@@ -0,0 +1,176 @@
+import type { RobotsAudit, RobotsCheck, RobotsGroup, RobotsRule, RobotsTxt } from './types.ts';
+
+// Crawlers every audit answers for; a custom product token can be added per request
+export const DEFAULT_ROBOTS_USER_AGENTS = ['Googlebot', 'Bingbot'];
+
+// robots.txt files larger than this are cut off by Google (RFC 9309 requires at least 500KiB)
+export const MAX_ROBOTS_BYTES = 500 * 1024;
+
+// Parses robots.txt per RFC 9309: consecutive user-agent lines open a group, and
+// allow/disallow lines belong to the group above them. Unknown lines are ignored.
+export const parseRobotsTxt = (text: string): RobotsTxt => {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    if (field === 'sitemap') {
+      // Sitemap lines stand outside of groups and do not end the current one
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything, which is the same as no rule
+      if (value) current.rules.push({ type: field, path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!Number.isNaN(delay)) current.crawlDelay = delay;
+    }
+  }
+
+  return { groups, sitemaps };
+};
+
+// "Sitemap:" lines may appear anywhere in robots.txt, outside of any user-agent group
+export const readRobotsSitemaps = (robotsTxt: string) => parseRobotsTxt(robotsTxt).sitemaps;
+
+// The product token is the name before any version or comment, e.g. "SEOInspector"
+// in "Mozilla/5.0 (compatible; SEOInspector/1.0)"
+export const getProductToken = (userAgent: string) => {
+  const compatible = userAgent.match(/compatible;\s*([\w-]+)/i);
+  return (compatible?.[1] ?? userAgent.match(/^[\w-]+/)?.[0] ?? userAgent).trim();
+};
+
+// The most specific user-agent line wins; groups naming the same agent are merged.
+// "*" applies only when no group names the crawler.
+const selectGroup = (robots: RobotsTxt, userAgent: string) => {
+  const token = userAgent.toLowerCase();
+  let best = '';
+  for (const group of robots.groups) {
+    for (const agent of group.userAgents) {
+      if (agent !== '*' && token.startsWith(agent) && agent.length > best.length) best = agent;
+    }
+  }
+  const name = best || '*';
+  const groups = robots.groups.filter((group) => group.userAgents.includes(name));
+  if (groups.length === 0) return null;
+  return {
+    name,
+    rules: groups.flatMap((group) => group.rules),
+    crawlDelay: groups.find((group) => group.crawlDelay !== undefined)?.crawlDelay,
+  };
+};
+
+// "*" matches any run of characters and a trailing "$" anchors the end of the URL
+const patternToRegExp = (pattern: string) => {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+};
+
+// Percent-encodes the same way on both sides so "/caf%C3%A9" and "/café" compare equal
+const normalizePath = (path: string) => {
+  try {
+    return encodeURI(decodeURI(path));
+  } catch {
+    return path;
+  }
+};
+
+const matchRule = (rules: RobotsRule[], path: string) => {
+  let match: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!patternToRegExp(normalizePath(rule.path)).test(path)) continue;
+    // Longest pattern wins; on a tie the less restrictive Allow wins
+    if (!match || rule.path.length > match.path.length ||
+        (rule.path.length === match.path.length && rule.type === 'allow')) {
+      match = rule;
+    }
+  }
+  return match;
+};
+
+export const checkRobotsAccess = (robots: RobotsTxt, url: string, userAgent: string): RobotsCheck => {
+  const { pathname, search } = new URL(url);
+  const group = selectGroup(robots, userAgent);
+  // robots.txt itself is always fetchable
+  if (!group || pathname === '/robots.txt') {
+    return { userAgent, allowed: true, group: group?.name ?? null, rule: null };
+  }
+  const rule = matchRule(group.rules, normalizePath(`${pathname}${search}`));
+  return {
+    userAgent,
+    allowed: rule?.type !== 'disallow',
+    group: group.name,
+    rule,
+    ...(group.crawlDelay !== undefined ? { crawlDelay: group.crawlDelay } : {}),
+  };
+};
+
+// status is null when robots.txt could not be fetched at all. Like Google, a 4xx
+// means no restrictions and a 5xx means the whole site is off limits.
+export const auditRobots = (
+  robotsUrl: string,
+  status: number | null,
+  text: string,
+  pageUrl: string,
+  userAgents: string[] = DEFAULT_ROBOTS_USER_AGENTS
+): RobotsAudit => {
+  const warnings: string[] = [];
+  const availability = status === null
+    ? 'unreachable'
+    : status >= 500 ? 'server-error' : status >= 400 ? 'missing' : 'found';
+  const robots = availability === 'found' ? parseRobotsTxt(text) : { groups: [], sitemaps: [] };
+
+  let checks: RobotsCheck[];
+  if (availability === 'server-error') {
+    warnings.push(`robots.txt answered ${status}; crawlers treat the whole site as disallowed`);
+    checks = userAgents.map((userAgent) => ({ userAgent, allowed: false, group: null, rule: null }));
+  } else if (availability === 'unreachable') {
+    warnings.push('robots.txt could not be fetched');
+    checks = [];
+  } else {
+    checks = userAgents.map((userAgent) => checkRobotsAccess(robots, pageUrl, userAgent));
+  }
+
+  if (availability === 'found' && robots.groups.length === 0) warnings.push('robots.txt has no user-agent groups');
+  if (availability === 'found' && new TextEncoder().encode(text).length > MAX_ROBOTS_BYTES) {
+    warnings.push('robots.txt is larger than 500KB; rules past that point are ignored');
+  }
+  for (const check of checks) {
+    if (!check.allowed) warnings.push(`${check.userAgent} may not crawl this URL${check.rule ? ` (Disallow: ${check.rule.path})` : ''}`);
+  }
+
+  return {
+    url: robotsUrl,
+    status,
+    availability,
+    checks,
+    groups: robots.groups.length,
+    sitemaps: robots.sitemaps,
+    warnings,
+  };
+};
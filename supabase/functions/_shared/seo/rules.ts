@@ -0,0 +1,620 @@
+import { MIN_TEXT_TO_HTML_RATIO, THIN_CONTENT_WORDS } from './content.ts';
+import { MIN_HSTS_MAX_AGE } from './headers.ts';
+import { MAX_KEYWORD_DENSITY, MIN_KEYWORD_DENSITY } from './keyword.ts';
+import { DEFAULT_ROBOTS_USER_AGENTS } from './robots.ts';
+import type { KeywordAudit, RuleSeverity, RuleStatus, ScoreCategory, SEOData, SnippetTextAudit } from './types.ts';
+
+export interface RuleEvaluation {
+  status: RuleStatus;
+  // Share of the weight earned; defaults to 1 for pass, 0.5 for warn and 0 for fail
+  ratio?: number;
+  message: string;
+  // What was actually found on the page, reported in issues
+  observed?: string;
+  // Narrower selector than the rule's own, e.g. pointing at the offending images
+  selector?: string;
+}
+
+export interface SEORule {
+  id: string;
+  category: ScoreCategory;
+  // Points in the default profile; outside the keyword category all default weights add up to 100
+  weight: number;
+  severity: RuleSeverity;
+  // Where the problem lives: a CSS selector for markup, a header name otherwise
+  selector: string;
+  expected: string;
+  fix: string;
+  evaluate: (data: SEOData) => RuleEvaluation;
+}
+
+const pass = (message: string, observed?: string): RuleEvaluation => ({ status: 'pass', message, observed });
+const warn = (message: string, observed?: string): RuleEvaluation => ({ status: 'warn', message, observed });
+const fail = (message: string, observed = 'missing'): RuleEvaluation => ({ status: 'fail', message, observed });
+const notApplicable = (message: string): RuleEvaluation => ({ status: 'n/a', message, observed: 'not checked' });
+
+// Proportional rules pass when every item complies and fail when none does
+const proportion = (compliant: number, total: number, message: string, selector?: string): RuleEvaluation => {
+  const ratio = total === 0 ? 1 : compliant / total;
+  return {
+    status: ratio === 1 ? 'pass' : ratio === 0 ? 'fail' : 'warn',
+    ratio,
+    message,
+    observed: `${compliant} of ${total} compliant`,
+    selector,
+  };
+};
+
+// Points at up to three offending elements so the selector stays readable
+const listSelectors = (tag: string, attribute: string, values: string[]) => {
+  if (values.length === 0) return undefined;
+  const shown = values.slice(0, 3).map((value) => `${tag}[${attribute}='${value}']`);
+  return values.length > 3 ? `${shown.join(', ')} (+${values.length - 3} more)` : shown.join(', ');
+};
+
+// A present title or description earns less the further it strays from what fits
+// a search result; it never drops below a quarter of the weight.
+const SNIPPET_PENALTIES: [keyof SnippetTextAudit, number][] = [
+  ['tooShort', 0.3],
+  ['tooLong', 0.3],
+  ['truncatedDesktop', 0.2],
+  ['truncatedMobile', 0.1],
+];
+
+const gradeSnippet = (audit: SnippetTextAudit, label: string): RuleEvaluation => {
+  const penalty = SNIPPET_PENALTIES.reduce((sum, [flag, cost]) => sum + (audit[flag] ? cost : 0), 0) +
+    (audit.duplicateWords.length > 0 ? 0.1 : 0);
+  const observed = `${audit.length} characters, ${audit.pixelWidth}px`;
+  if (penalty === 0) return pass(`${label} fits search results`, observed);
+  return { status: 'warn', ratio: Math.max(0.25, 1 - penalty), message: `${label}: ${audit.warnings.join('; ')}`, observed };
+};
+
+// Keyword rules do not apply when no target keyword was given, so they never raise issues
+const withKeyword = (evaluate: (keyword: KeywordAudit, data: SEOData) => RuleEvaluation) =>
+  (data: SEOData): RuleEvaluation => (data.keyword ? evaluate(data.keyword, data) : notApplicable('No target keyword given'));
+
+// Robots directives are case-insensitive, so NOINDEX counts too
+const isNoindex = (data: SEOData) => !!data.metaRobots?.toLowerCase().includes('noindex') || !!data.headers?.noindex;
+
+export const SEO_RULES: SEORule[] = [
+  // Basic SEO
+  {
+    id: 'title-present',
+    category: 'basic',
+    weight: 13,
+    severity: 'error',
+    selector: 'head > title',
+    expected: '30-60 characters, under 600px wide, no repeated words',
+    fix: 'Write a <title> that summarizes the page in 30-60 characters and fits the desktop result without truncation.',
+    evaluate: (data) => {
+      if (!data.title) return fail('Page is missing a <title>');
+      return data.serp ? gradeSnippet(data.serp.title, 'Title') : pass('Page has a title', data.title);
+    },
+  },
+  {
+    id: 'description-present',
+    category: 'basic',
+    weight: 10,
+    severity: 'error',
+    selector: 'meta[name="description"]',
+    expected: '120-160 characters, under 920px wide, no repeated words',
+    fix: 'Add <meta name="description" content="…"> with a 120-160 character summary that is not cut off on mobile.',
+    evaluate: (data) => {
+      if (!data.description) return fail('Page is missing a meta description');
+      return data.serp
+        ? gradeSnippet(data.serp.description, 'Description')
+        : pass('Page has a meta description', data.description);
+    },
+  },
+  {
+    id: 'h1-present',
+    category: 'basic',
+    weight: 6,
+    severity: 'error',
+    selector: 'h1',
+    expected: 'One h1 heading',
+    fix: 'Add a single <h1> that states the main topic of the page.',
+    evaluate: (data) => (data.h1 ? pass('Page has an h1 heading', data.h1) : fail('Page has no h1 heading')),
+  },
+  {
+    id: 'heading-outline',
+    category: 'basic',
+    weight: 4,
+    severity: 'warning',
+    selector: 'h1, h2, h3, h4, h5, h6',
+    expected: 'A single h1 and headings that do not skip levels or stay empty',
+    fix: 'Keep one h1, nest h2-h6 without skipping levels and give every heading text.',
+    evaluate: (data) => {
+      if (!data.headings) return notApplicable('Heading outline was not analyzed');
+      return data.headings.warnings.length === 0
+        ? pass('Heading outline is well structured')
+        : fail(data.headings.warnings.join('; '), data.headings.warnings.join('; '));
+    },
+  },
+  {
+    id: 'thin-content',
+    category: 'basic',
+    weight: 0,
+    severity: 'warning',
+    selector: 'main, article, body',
+    expected: `At least ${THIN_CONTENT_WORDS} words of main content and text making up ${MIN_TEXT_TO_HTML_RATIO}% of the HTML`,
+    fix: 'Expand the main content so it answers the query on its own, and trim markup that carries no text.',
+    evaluate: (data) => {
+      const content = data.content;
+      if (!content) return notApplicable('Content was not analyzed');
+      const observed = `${content.wordCount} words, ${content.textToHtmlRatio}% text`;
+      if (content.thin) return fail(`Thin content: ${content.wordCount} words of main content`, observed);
+      return content.textToHtmlRatio < MIN_TEXT_TO_HTML_RATIO
+        ? warn(`Low text-to-HTML ratio: ${content.textToHtmlRatio}%`, observed)
+        : pass('Page has substantial main content', observed);
+    },
+  },
+  {
+    id: 'link-anchor-text',
+    category: 'basic',
+    weight: 0,
+    severity: 'notice',
+    selector: 'a[href]',
+    expected: 'Descriptive anchor text on every link',
+    fix: 'Replace empty or generic link text ("click here", "read more") with words describing the target.',
+    evaluate: (data) => {
+      const links = data.links;
+      if (!links) return notApplicable('Links were not analyzed');
+      const poor = links.links.filter((link) => link.emptyText || link.genericText);
+      return proportion(
+        links.total - poor.length,
+        links.total,
+        `${poor.length} of ${links.total} links have empty or generic anchor text`,
+        listSelectors('a', 'href', poor.map((link) => link.href))
+      );
+    },
+  },
+
+  // Social Media
+  {
+    id: 'og-title',
+    category: 'social',
+    weight: 7,
+    severity: 'warning',
+    selector: 'meta[property="og:title"]',
+    expected: 'An og:title for social previews',
+    fix: 'Add <meta property="og:title" content="…">.',
+    evaluate: (data) => {
+      if (data.ogTitle) return pass('og:title is set', data.ogTitle);
+      return data.title
+        ? pass('og:title is missing, the page title is used instead', data.title)
+        : fail('No og:title or page title');
+    },
+  },
+  {
+    id: 'og-description',
+    category: 'social',
+    weight: 5,
+    severity: 'warning',
+    selector: 'meta[property="og:description"]',
+    expected: 'An og:description for social previews',
+    fix: 'Add <meta property="og:description" content="…">.',
+    evaluate: (data) => {
+      if (data.ogDescription) return pass('og:description is set', data.ogDescription);
+      return data.description
+        ? pass('og:description is missing, the meta description is used instead', data.description)
+        : fail('No og:description or meta description');
+    },
+  },
+  {
+    id: 'og-image',
+    category: 'social',
+    weight: 6,
+    severity: 'warning',
+    selector: 'meta[property="og:image"]',
+    expected: 'An absolute og:image URL, ideally 1200×630',
+    fix: 'Add <meta property="og:image" content="https://…"> pointing at a 1200×630 image.',
+    evaluate: (data) => (data.ogImage ? pass('og:image is set', data.ogImage) : fail('No og:image for social previews')),
+  },
+  {
+    id: 'open-graph',
+    category: 'social',
+    weight: 2,
+    severity: 'warning',
+    selector: 'meta[property^="og:"]',
+    expected: 'og:title, og:type, og:image and og:url with a known type and absolute URLs',
+    fix: 'Add the four required Open Graph properties, use a type from ogp.me and absolute https URLs, and describe og:image with width, height and alt.',
+    evaluate: (data) => {
+      const openGraph = data.openGraph;
+      if (!openGraph || Object.keys(openGraph.properties).length === 0) return fail('No Open Graph properties');
+      if (openGraph.errors.length > 0) return fail(openGraph.errors.join('; '), openGraph.errors.join('; '));
+      return openGraph.warnings.length > 0
+        ? warn(openGraph.warnings.join('; '), `${Object.keys(openGraph.properties).length} properties`)
+        : pass('Open Graph properties follow the spec', `${Object.keys(openGraph.properties).length} properties`);
+    },
+  },
+  {
+    id: 'og-url-canonical',
+    category: 'social',
+    weight: 0,
+    severity: 'warning',
+    selector: 'meta[property="og:url"]',
+    expected: 'og:url matching the canonical URL',
+    fix: 'Point og:url at the canonical URL so shares and likes are counted for the same page.',
+    evaluate: (data) => {
+      if (!data.ogUrl || !data.canonical) return pass('og:url or canonical is not set', 'none');
+      return data.openGraph?.canonicalMismatch
+        ? fail('og:url differs from the canonical URL', `${data.ogUrl} vs ${data.canonical}`)
+        : pass('og:url matches the canonical URL', data.ogUrl);
+    },
+  },
+  {
+    id: 'twitter-card',
+    category: 'social',
+    weight: 2,
+    severity: 'notice',
+    selector: 'meta[name^="twitter:"]',
+    expected: 'A valid twitter:card with the properties its type needs',
+    fix: 'Add <meta name="twitter:card" content="summary_large_image">, plus the player or app properties those cards require.',
+    evaluate: (data) => {
+      const twitter = data.twitter;
+      if (!twitter || Object.keys(twitter.properties).length === 0) {
+        return data.ogTitle ? warn('No Twitter Card tags, X falls back to Open Graph', 'none') : fail('No Twitter Card tags');
+      }
+      if (twitter.errors.length > 0) return fail(twitter.errors.join('; '), twitter.errors.join('; '));
+      const observed = twitter.properties['twitter:card'] || 'no card type';
+      return twitter.warnings.length > 0
+        ? warn(twitter.warnings.join('; '), observed)
+        : pass('Twitter Card tags are valid', observed);
+    },
+  },
+
+  // Technical SEO
+  {
+    id: 'canonical',
+    category: 'technical',
+    weight: 8,
+    severity: 'warning',
+    selector: 'link[rel="canonical"]',
+    expected: 'A canonical URL',
+    fix: 'Add <link rel="canonical" href="…"> with the preferred URL of this page.',
+    evaluate: (data) => {
+      if (data.canonical) return pass('Canonical link is set', data.canonical);
+      return data.headers?.linkCanonical
+        ? pass('Canonical is set through the Link header', data.headers.linkCanonical)
+        : fail('No canonical URL declared');
+    },
+  },
+  {
+    id: 'lang',
+    category: 'technical',
+    weight: 4,
+    severity: 'warning',
+    selector: 'html[lang]',
+    expected: 'A BCP 47 language code, e.g. "en"',
+    fix: 'Set the lang attribute on the <html> element.',
+    evaluate: (data) => (data.lang ? pass('html lang attribute is set', data.lang) : fail('html element has no lang attribute')),
+  },
+  {
+    id: 'viewport',
+    category: 'technical',
+    weight: 4,
+    severity: 'error',
+    selector: 'meta[name="viewport"]',
+    expected: 'width=device-width, initial-scale=1',
+    fix: 'Add <meta name="viewport" content="width=device-width, initial-scale=1">.',
+    evaluate: (data) =>
+      data.viewport
+        ? pass('Viewport meta tag is set', data.viewport)
+        : fail('No viewport meta tag, page is not mobile friendly'),
+  },
+  {
+    id: 'charset',
+    category: 'technical',
+    weight: 4,
+    severity: 'notice',
+    selector: 'meta[charset]',
+    expected: 'utf-8',
+    fix: 'Add <meta charset="utf-8"> as the first element of <head>, or a charset to the Content-Type header.',
+    evaluate: (data) => {
+      if (data.charset) return pass('Charset is declared in the markup', data.charset);
+      return data.headers?.contentTypeCharset
+        ? pass('Charset is declared in the Content-Type header', data.headers.contentTypeCharset)
+        : fail('No charset declared');
+    },
+  },
+  {
+    id: 'indexable',
+    category: 'technical',
+    weight: 5,
+    severity: 'error',
+    selector: 'meta[name="robots"], X-Robots-Tag',
+    expected: 'No noindex directive',
+    fix: 'Remove "noindex" from the robots meta tag and the X-Robots-Tag header if the page should rank.',
+    evaluate: (data) => {
+      if (!isNoindex(data)) return pass('Page can be indexed');
+      const observed = [data.metaRobots, data.headers?.xRobotsTag].filter(Boolean).join(' / ');
+      return fail('Page is blocked from indexing (noindex)', observed);
+    },
+  },
+  {
+    id: 'crawlable',
+    category: 'technical',
+    weight: 5,
+    severity: 'error',
+    selector: 'robots.txt',
+    expected: 'Googlebot and Bingbot allowed to crawl the URL',
+    fix: 'Remove or narrow the robots.txt Disallow rule matching this URL, or add a longer Allow rule for it.',
+    evaluate: (data) => {
+      const robots = data.robots;
+      if (!robots) return notApplicable('robots.txt was not checked');
+      if (robots.availability === 'unreachable') return pass('robots.txt could not be fetched', 'unreachable');
+      if (robots.availability === 'server-error') {
+        return fail(`robots.txt answered ${robots.status}, so crawlers skip the whole site`, `HTTP ${robots.status}`);
+      }
+      // Only the search engine crawlers count; a custom agent is reported but not scored
+      const blocked = robots.checks.filter((check) => !check.allowed && DEFAULT_ROBOTS_USER_AGENTS.includes(check.userAgent));
+      if (blocked.length === 0) {
+        return pass('Search engines may crawl this URL', robots.availability === 'missing' ? 'no robots.txt' : 'allowed');
+      }
+      const observed = blocked.map((check) => `${check.userAgent}: Disallow: ${check.rule?.path ?? '/'}`).join(', ');
+      return blocked.some((check) => check.userAgent === 'Googlebot')
+        ? fail('robots.txt blocks Googlebot from this URL', observed)
+        : warn(`robots.txt blocks ${blocked.map((check) => check.userAgent).join(', ')} from this URL`, observed);
+    },
+  },
+  {
+    id: 'compression',
+    category: 'technical',
+    weight: 2,
+    severity: 'notice',
+    selector: 'Content-Encoding',
+    expected: 'gzip or br',
+    fix: 'Enable gzip or Brotli compression for HTML responses on the server or CDN.',
+    evaluate: (data) => {
+      if (!data.headers) return notApplicable('Response headers were not checked');
+      return data.headers.compressed
+        ? pass('Response is compressed', data.headers.contentEncoding)
+        : fail('Response is not compressed', data.headers.contentEncoding || 'missing');
+    },
+  },
+  {
+    id: 'caching',
+    category: 'technical',
+    weight: 2,
+    severity: 'notice',
+    selector: 'Cache-Control, ETag, Last-Modified',
+    expected: 'Cache-Control without no-store, or a validator (ETag/Last-Modified)',
+    fix: 'Send a Cache-Control header and an ETag or Last-Modified validator.',
+    evaluate: (data) => {
+      if (!data.headers) return notApplicable('Response headers were not checked');
+      return data.headers.cacheable
+        ? pass('Response can be cached', data.headers.cacheControl)
+        : fail('Response has no usable caching headers', data.headers.cacheControl || 'missing');
+    },
+  },
+  {
+    id: 'hsts',
+    category: 'technical',
+    weight: 1,
+    severity: 'notice',
+    selector: 'Strict-Transport-Security',
+    expected: `max-age of at least ${MIN_HSTS_MAX_AGE}`,
+    fix: 'Serve the page over HTTPS with Strict-Transport-Security: max-age=31536000; includeSubDomains.',
+    evaluate: (data) => {
+      if (!data.headers) return notApplicable('Response headers were not checked');
+      const { strictTransportSecurity, hstsMaxAge } = data.headers;
+      if (!strictTransportSecurity) return fail('No Strict-Transport-Security header');
+      // max-age=0 tells browsers to forget the policy, so only a long enough one counts
+      if (hstsMaxAge === null) return fail('Strict-Transport-Security has no max-age', strictTransportSecurity);
+      return hstsMaxAge >= MIN_HSTS_MAX_AGE
+        ? pass('HSTS is enabled', strictTransportSecurity)
+        : fail(`HSTS max-age ${hstsMaxAge} is shorter than ${MIN_HSTS_MAX_AGE}`, strictTransportSecurity);
+    },
+  },
+  {
+    id: 'structured-data',
+    category: 'technical',
+    weight: 0,
+    severity: 'notice',
+    selector: 'script[type="application/ld+json"], [itemscope], [typeof]',
+    expected: 'Valid schema.org structured data',
+    fix: 'Describe the page with JSON-LD (e.g. Organization, Article or Product) and fill in the required properties.',
+    evaluate: (data) => {
+      const structured = data.structuredData;
+      if (!structured || structured.items.length === 0) return fail('No structured data found');
+      return structured.errors > 0
+        ? warn(`Structured data has ${structured.errors} errors`, `${structured.errors} errors`)
+        : pass(`Structured data found: ${structured.types.join(', ')}`, structured.types.join(', '));
+    },
+  },
+  {
+    id: 'hreflang',
+    category: 'technical',
+    weight: 0,
+    severity: 'warning',
+    selector: 'link[rel="alternate"][hreflang]',
+    expected: 'Valid language-region codes, a self-reference and an x-default',
+    fix: 'Use ISO 639-1 languages with optional ISO 3166-1 regions (e.g. en-GB), list the page itself and add an x-default alternate.',
+    evaluate: (data) => {
+      const hreflang = data.hreflang;
+      if (!hreflang || hreflang.entries.length === 0) return pass('No hreflang annotations', 'none');
+      const invalid = hreflang.entries.filter((entry) => !entry.valid);
+      if (invalid.length > 0) {
+        return fail(
+          `${invalid.length} of ${hreflang.entries.length} hreflang annotations are invalid`,
+          invalid.map((entry) => entry.error).join('; ')
+        );
+      }
+      const observed = `${hreflang.entries.length} alternates`;
+      return hreflang.warnings.length > 0
+        ? warn(hreflang.warnings.join('; '), observed)
+        : pass('hreflang annotations are valid', observed);
+    },
+  },
+
+  // Images
+  {
+    id: 'image-alt',
+    category: 'images',
+    weight: 6,
+    severity: 'warning',
+    selector: 'img',
+    expected: 'An alt attribute on every image (empty for decorative ones)',
+    fix: 'Add alt text describing each image, or an empty alt when it is purely decorative.',
+    evaluate: (data) => {
+      const images = data.images;
+      if (!images) return notApplicable('Images were not analyzed');
+      return proportion(
+        images.total - images.missingAlt,
+        images.total,
+        `${images.missingAlt} of ${images.total} images have no alt attribute`,
+        listSelectors('img', 'src', images.images.filter((image) => image.alt === null).map((image) => image.src))
+      );
+    },
+  },
+  {
+    id: 'image-dimensions',
+    category: 'images',
+    weight: 4,
+    severity: 'notice',
+    selector: 'img',
+    expected: 'width and height attributes on every image',
+    fix: 'Set width and height on images so the browser reserves space and avoids layout shift.',
+    evaluate: (data) => {
+      const images = data.images;
+      if (!images) return notApplicable('Images were not analyzed');
+      return proportion(
+        images.total - images.missingDimensions,
+        images.total,
+        `${images.missingDimensions} of ${images.total} images have no width/height`,
+        listSelectors('img', 'src', images.images.filter((image) => !image.width || !image.height).map((image) => image.src))
+      );
+    },
+  },
+
+  // Keyword focus: only scored when the request names a target keyword
+  {
+    id: 'keyword-title',
+    category: 'keyword',
+    weight: 5,
+    severity: 'error',
+    selector: 'head > title',
+    expected: 'The target keyword in the title, ideally near the start',
+    fix: 'Work the target keyword into the <title>, as close to the beginning as reads naturally.',
+    evaluate: withKeyword(({ title }) => {
+      if (!title.found) return fail('Title does not contain the target keyword');
+      const observed = `word ${(title.position ?? 0) + 1}`;
+      return (title.position ?? 0) < 5
+        ? pass('Target keyword is near the start of the title', observed)
+        : warn('Target keyword appears late in the title', observed);
+    }),
+  },
+  {
+    id: 'keyword-description',
+    category: 'keyword',
+    weight: 3,
+    severity: 'warning',
+    selector: 'meta[name="description"]',
+    expected: 'The target keyword in the meta description',
+    fix: 'Mention the target keyword in the meta description; search engines bold it in results.',
+    evaluate: withKeyword(({ description }) => (description.found
+      ? pass('Meta description contains the target keyword')
+      : fail('Meta description does not contain the target keyword'))),
+  },
+  {
+    id: 'keyword-h1',
+    category: 'keyword',
+    weight: 3,
+    severity: 'warning',
+    selector: 'h1',
+    expected: 'The target keyword in the h1',
+    fix: 'Use the target keyword in the main <h1> heading.',
+    evaluate: withKeyword(({ h1 }, data) => (h1.found
+      ? pass('h1 contains the target keyword', data.h1)
+      : fail('h1 does not contain the target keyword', data.h1 || 'missing'))),
+  },
+  {
+    id: 'keyword-url',
+    category: 'keyword',
+    weight: 2,
+    severity: 'notice',
+    selector: 'url',
+    expected: 'The target keyword in the URL path',
+    fix: 'Use a short, hyphenated slug containing the target keyword.',
+    evaluate: withKeyword(({ urlSlug }, data) => (urlSlug.found
+      ? pass('URL contains the target keyword')
+      : fail('URL does not contain the target keyword', data.url))),
+  },
+  {
+    id: 'keyword-first-paragraph',
+    category: 'keyword',
+    weight: 2,
+    severity: 'notice',
+    selector: 'p',
+    expected: 'The target keyword in the first paragraph',
+    fix: 'Introduce the target keyword in the opening paragraph.',
+    evaluate: withKeyword(({ firstParagraph }) => (firstParagraph.found
+      ? pass('First paragraph contains the target keyword')
+      : fail('First paragraph does not contain the target keyword'))),
+  },
+  {
+    id: 'keyword-headings',
+    category: 'keyword',
+    weight: 2,
+    severity: 'notice',
+    selector: 'h2, h3, h4, h5, h6',
+    expected: 'The target keyword in at least one subheading',
+    fix: 'Use the target keyword, or a close variant, in an h2 or lower heading.',
+    evaluate: withKeyword(({ headings }) => {
+      if (headings.total === 0) return pass('Page has no subheadings', 'none');
+      const observed = `${headings.withKeyword} of ${headings.total} subheadings`;
+      return headings.withKeyword > 0
+        ? pass('A subheading contains the target keyword', observed)
+        : fail('No subheading contains the target keyword', observed);
+    }),
+  },
+  {
+    id: 'keyword-density',
+    category: 'keyword',
+    weight: 3,
+    severity: 'warning',
+    selector: 'body',
+    expected: `Keyword density between ${MIN_KEYWORD_DENSITY}% and ${MAX_KEYWORD_DENSITY}%`,
+    fix: 'Use the target keyword naturally through the body; repeating it more reads as keyword stuffing.',
+    evaluate: withKeyword(({ occurrences, density }) => {
+      if (occurrences === 0) return fail('Target keyword does not appear in the body text', '0 occurrences');
+      const observed = `${occurrences} occurrences, ${density}%`;
+      if (density > MAX_KEYWORD_DENSITY) return warn('Keyword density suggests keyword stuffing', observed);
+      if (density < MIN_KEYWORD_DENSITY) return warn('Target keyword is rare in the body text', observed);
+      return pass('Keyword density is in range', observed);
+    }),
+  },
+];
+
+// Weight overrides by rule id; rules not listed keep their default weight
+export const SCORING_PROFILES: Record<string, Record<string, number>> = {
+  default: {},
+  ecommerce: {
+    'og-image': 15,
+    'structured-data': 10,
+    'image-alt': 10,
+    'image-dimensions': 6,
+    'heading-outline': 2,
+  },
+  content: {
+    'heading-outline': 10,
+    'thin-content': 8,
+    'description-present': 15,
+    'link-anchor-text': 5,
+    'structured-data': 5,
+    'og-image': 6,
+  },
+  technical: {
+    canonical: 12,
+    indexable: 10,
+    crawlable: 10,
+    hreflang: 3,
+    compression: 5,
+    caching: 5,
+    hsts: 3,
+    'og-title': 3,
+    'og-description': 3,
+    'og-image': 4,
+  },
+};
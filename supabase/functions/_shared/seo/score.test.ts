@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDocument, buildIssues, calculateSEOScore, extractMetaData, SEO_RULES } from './index.ts';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const PAGE = `<html lang="en"><head>
+  <title>Handmade oak furniture for every room</title>
+  <meta name="description" content="Tables, chairs and shelves built by hand from solid oak in our workshop.">
+  <link rel="canonical" href="https://example.com/">
+</head><body><h1>Oak furniture</h1><p>Built to last.</p></body></html>`;
+
+const HEADERS = {
+  'content-encoding': 'gzip',
+  'cache-control': 'max-age=600',
+  'strict-transport-security': 'max-age=31536000',
+};
+
+const ruleResult = (score: ReturnType<typeof calculateSEOScore>, id: string) =>
+  score.rules.find((rule) => rule.id === id);
+
+describe('calculateSEOScore', () => {
+  it('gives the rules outside the keyword category 100 points by default', () => {
+    const total = SEO_RULES.filter((rule) => rule.category !== 'keyword').reduce((sum, rule) => sum + rule.weight, 0);
+    expect(total).toBe(100);
+  });
+
+  it('applies the weights of the requested profile', () => {
+    const data = extractMetaData(parse(PAGE), 'https://example.com/');
+    const score = calculateSEOScore(data, { profile: 'technical' });
+    expect(score.profile).toBe('technical');
+    expect(ruleResult(score, 'canonical')?.weight).toBe(12);
+  });
+
+  it('falls back to the default profile for an unknown name', () => {
+    const data = extractMetaData(parse(PAGE), 'https://example.com/');
+    expect(calculateSEOScore(data, { profile: 'nonsense' }).profile).toBe('default');
+  });
+
+  it('lets per-rule weights override the profile', () => {
+    const data = extractMetaData(parse(PAGE), 'https://example.com/');
+    const score = calculateSEOScore(data, { profile: 'technical', weights: { canonical: 0 } });
+    expect(ruleResult(score, 'canonical')?.weight).toBe(0);
+  });
+
+  it('leaves rules with nothing to check out of the score', () => {
+    const data = extractMetaData(parse(PAGE), 'https://example.com/');
+    const score = calculateSEOScore(data);
+    for (const id of ['compression', 'caching', 'hsts', 'crawlable', 'keyword-title']) {
+      expect(ruleResult(score, id)).toMatchObject({ status: 'n/a', weight: 0, points: 0 });
+    }
+    expect(buildIssues(score).some((issue) => issue.ruleId === 'compression')).toBe(false);
+  });
+
+  it('scores posted markup as if the unchecked rules had no weight', () => {
+    const posted = analyzeDocument(parse(PAGE), 'https://example.com/');
+    const fetched = analyzeDocument(parse(PAGE), 'https://example.com/', HEADERS, {
+      weights: { compression: 0, caching: 0, hsts: 0 },
+    });
+    expect(posted.score.total).toBe(fetched.score.total);
+  });
+
+  it('passes hsts only from a max-age of six months', () => {
+    const short = analyzeDocument(parse(PAGE), 'https://example.com/', { ...HEADERS, 'strict-transport-security': 'max-age=0' });
+    const long = analyzeDocument(parse(PAGE), 'https://example.com/', HEADERS);
+    expect(ruleResult(short.score, 'hsts')?.status).toBe('fail');
+    expect(ruleResult(long.score, 'hsts')?.status).toBe('pass');
+  });
+
+  it('scores the keyword category only when a target keyword is given', () => {
+    const without = analyzeDocument(parse(PAGE), 'https://example.com/');
+    const withKeyword = analyzeDocument(parse(PAGE), 'https://example.com/', undefined, { targetKeyword: 'oak furniture' });
+    expect(without.score.max.keyword).toBe(0);
+    expect(withKeyword.score.max.keyword).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { SEO_RULES, SCORING_PROFILES } from './rules.ts';
+import type { RuleResult, ScoreCategory, SEOData, SEOScore } from './types.ts';
+
+export interface ScoringOptions {
+  // Name of a preset in SCORING_PROFILES
+  profile?: string;
+  // Per-rule weight overrides applied on top of the profile
+  weights?: Record<string, number>;
+  // Phrase the page should rank for; audited into data.keyword by analyzeDocument
+  targetKeyword?: string;
+}
+
+const STATUS_RATIO = { pass: 1, warn: 0.5, fail: 0, 'n/a': 0 };
+
+const emptyBreakdown = (): Record<ScoreCategory, number> => ({ basic: 0, social: 0, technical: 0, images: 0, keyword: 0 });
+
+export const isKnownProfile = (profile: string) => Object.prototype.hasOwnProperty.call(SCORING_PROFILES, profile);
+
+export const calculateSEOScore = (data: SEOData, options: ScoringOptions = {}): SEOScore => {
+  const profile = options.profile && isKnownProfile(options.profile) ? options.profile : 'default';
+  const weights = { ...SCORING_PROFILES[profile], ...options.weights };
+
+  const breakdown = emptyBreakdown();
+  const max = emptyBreakdown();
+
+  const rules: RuleResult[] = SEO_RULES.map((rule) => {
+    const evaluation = rule.evaluate(data);
+    // Rules with nothing to check (no target keyword, no response headers) neither earn
+    // nor cost points, so posted markup scores like the same page fetched
+    const weight = evaluation.status === 'n/a' ? 0 : Math.max(0, weights[rule.id] ?? rule.weight);
+    const points = weight * (evaluation.ratio ?? STATUS_RATIO[evaluation.status]);
+
+    breakdown[rule.category] += points;
+    max[rule.category] += weight;
+
+    return {
+      id: rule.id,
+      category: rule.category,
+      severity: rule.severity,
+      status: evaluation.status,
+      weight,
+      points: Math.round(points * 10) / 10,
+      message: evaluation.message,
+      observed: evaluation.observed,
+      selector: evaluation.selector,
+    };
+  });
+
+  const categories = Object.keys(breakdown) as ScoreCategory[];
+  const earned = categories.reduce((sum, category) => sum + breakdown[category], 0);
+  const possible = categories.reduce((sum, category) => sum + max[category], 0);
+  categories.forEach((category) => {
+    breakdown[category] = Math.round(breakdown[category]);
+  });
+
+  return {
+    total: possible === 0 ? 0 : Math.round((earned / possible) * 100),
+    breakdown,
+    max,
+    profile,
+    rules,
+  };
+};
@@ -0,0 +1,119 @@
+import type { SerpAudit, SnippetLimits, SnippetTextAudit } from './types.ts';
+
+// Google renders titles in 20px Arial and descriptions in 14px Arial. The pixel
+// budgets below are the widths at which it typically cuts the text with "…".
+export const TITLE_LIMITS: SnippetLimits = {
+  minLength: 30,
+  maxLength: 60,
+  fontSize: 20,
+  desktopPx: 600,
+  mobilePx: 500,
+};
+
+export const DESCRIPTION_LIMITS: SnippetLimits = {
+  minLength: 120,
+  maxLength: 160,
+  fontSize: 14,
+  desktopPx: 920,
+  mobilePx: 680,
+};
+
+// Arial advance widths in em, grouped by glyph; anything unlisted uses the average
+const CHAR_WIDTHS: [string, number][] = [
+  ["ijl|'", 0.222],
+  ['!.,:;Ift[]/\\ ', 0.278],
+  ['r()-"', 0.333],
+  ['*', 0.389],
+  ['cksvxyzJ', 0.5],
+  ['abdeghnopqu0123456789$#?_L', 0.556],
+  ['FTZ', 0.611],
+  ['ABEKPSVXY&', 0.667],
+  ['wCDHNRU', 0.722],
+  ['GOQ', 0.778],
+  ['mM', 0.833],
+  ['%', 0.889],
+  ['W', 0.944],
+];
+const AVERAGE_WIDTH = 0.556;
+
+const WIDTH_BY_CHAR = new Map(CHAR_WIDTHS.flatMap(([chars, width]) => Array.from(chars, (char) => [char, width] as const)));
+
+const charWidth = (char: string) => {
+  const known = WIDTH_BY_CHAR.get(char);
+  if (known !== undefined) return known;
+  // Uppercase letters outside the table (accented, Cyrillic, …) run wide
+  return char !== char.toLowerCase() ? 0.7 : AVERAGE_WIDTH;
+};
+
+export const estimatePixelWidth = (text: string, fontSize: number) =>
+  Math.round(Array.from(text).reduce((sum, char) => sum + charWidth(char), 0) * fontSize);
+
+const ELLIPSIS = ' …';
+
+// Mimics the SERP cut: whole words up to the budget, then an ellipsis
+const truncateToWidth = (text: string, maxPx: number, fontSize: number) => {
+  if (estimatePixelWidth(text, fontSize) <= maxPx) return text;
+  const budget = maxPx - estimatePixelWidth(ELLIPSIS, fontSize);
+  let result = '';
+  for (const word of text.split(' ')) {
+    const candidate = result ? `${result} ${word}` : word;
+    if (estimatePixelWidth(candidate, fontSize) > budget) break;
+    result = candidate;
+  }
+  return `${result}${ELLIPSIS}`.trim();
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'our',
+  'the', 'this', 'to', 'with', 'you', 'your',
+]);
+
+export const findDuplicateWords = (text: string) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    if (word.length < 3 || STOP_WORDS.has(word)) continue;
+    if (seen.has(word)) duplicates.add(word);
+    seen.add(word);
+  }
+  return Array.from(duplicates);
+};
+
+export const auditSnippetText = (raw: string | undefined, limits: SnippetLimits): SnippetTextAudit => {
+  const text = (raw || '').replace(/\s+/g, ' ').trim();
+  const length = Array.from(text).length;
+  const pixelWidth = estimatePixelWidth(text, limits.fontSize);
+  const desktopPreview = truncateToWidth(text, limits.desktopPx, limits.fontSize);
+  const mobilePreview = truncateToWidth(text, limits.mobilePx, limits.fontSize);
+  const duplicateWords = findDuplicateWords(text);
+
+  const warnings: string[] = [];
+  if (length > 0 && length < limits.minLength) {
+    warnings.push(`${length} characters, shorter than the recommended ${limits.minLength}`);
+  }
+  if (length > limits.maxLength) {
+    warnings.push(`${length} characters, longer than the recommended ${limits.maxLength}`);
+  }
+  if (desktopPreview !== text) warnings.push(`${pixelWidth}px wide, truncated on desktop after ${limits.desktopPx}px`);
+  else if (mobilePreview !== text) warnings.push(`${pixelWidth}px wide, truncated on mobile after ${limits.mobilePx}px`);
+  if (duplicateWords.length > 0) warnings.push(`Repeated words: ${duplicateWords.join(', ')}`);
+
+  return {
+    text,
+    length,
+    pixelWidth,
+    tooShort: length > 0 && length < limits.minLength,
+    tooLong: length > limits.maxLength,
+    truncatedDesktop: desktopPreview !== text,
+    truncatedMobile: mobilePreview !== text,
+    desktopPreview,
+    mobilePreview,
+    duplicateWords,
+    warnings,
+  };
+};
+
+export const auditSerp = (title: string | undefined, description: string | undefined): SerpAudit => ({
+  title: auditSnippetText(title, TITLE_LIMITS),
+  description: auditSnippetText(description, DESCRIPTION_LIMITS),
+});
@@ -0,0 +1,84 @@
+import { findDuplicates } from './duplicates.ts';
+import { checkHreflangReciprocity } from './hreflang.ts';
+import { countIssues, SEVERITY_ORDER } from './issues.ts';
+import type { CrawlPageResult, RuleSeverity, SEOAnalysis, SiteReport } from './types.ts';
+
+export const summarizePage = (url: string, depth: number, analysis: SEOAnalysis): CrawlPageResult => {
+  const issues = analysis.issues ?? [];
+  const finalUrl = analysis.http?.finalUrl;
+  return {
+    url,
+    ...(finalUrl && finalUrl !== url ? { finalUrl } : {}),
+    depth,
+    status: analysis.http?.status ?? null,
+    score: analysis.score.total,
+    title: analysis.data.title || '',
+    description: analysis.data.description || '',
+    h1: analysis.data.h1 || '',
+    ...(analysis.data.contentHash ? { contentHash: analysis.data.contentHash } : {}),
+    ...(analysis.data.hreflang?.entries.length ? { hreflang: analysis.data.hreflang.entries } : {}),
+    issues: issues.map((issue) => ({ ruleId: issue.ruleId, severity: issue.severity })),
+    issueCounts: countIssues(issues),
+    ...(analysis.id ? { analysisId: analysis.id } : {}),
+  };
+};
+
+export const summarizeFailedPage = (url: string, depth: number, error: string): CrawlPageResult => ({
+  url,
+  depth,
+  status: null,
+  score: null,
+  title: '',
+  description: '',
+  h1: '',
+  issues: [],
+  issueCounts: { error: 0, warning: 0, notice: 0 },
+  error,
+});
+
+export const buildSiteReport = (
+  startUrl: string,
+  pages: CrawlPageResult[],
+  truncated: boolean,
+  blockedByRobots: string[] = []
+): SiteReport => {
+  const scored = pages.filter((page) => page.score !== null);
+
+  const byRule = new Map<string, { ruleId: string; severity: RuleSeverity; pages: number }>();
+  for (const page of pages) {
+    for (const issue of page.issues) {
+      const entry = byRule.get(issue.ruleId) ?? { ruleId: issue.ruleId, severity: issue.severity, pages: 0 };
+      entry.pages++;
+      // Keep the most urgent severity seen across pages
+      if (SEVERITY_ORDER.indexOf(issue.severity) < SEVERITY_ORDER.indexOf(entry.severity)) entry.severity = issue.severity;
+      byRule.set(issue.ruleId, entry);
+    }
+  }
+
+  return {
+    startUrl,
+    pagesCrawled: pages.length,
+    averageScore: scored.length === 0
+      ? 0
+      : Math.round(scored.reduce((sum, page) => sum + (page.score ?? 0), 0) / scored.length),
+    issueCounts: {
+      error: pages.reduce((sum, page) => sum + page.issueCounts.error, 0),
+      warning: pages.reduce((sum, page) => sum + page.issueCounts.warning, 0),
+      notice: pages.reduce((sum, page) => sum + page.issueCounts.notice, 0),
+    },
+    topIssues: Array.from(byRule.values()).sort((a, b) =>
+      b.pages - a.pages || SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    ),
+    errorPages: pages.filter((page) => page.status === null || page.status >= 400).length,
+    maxDepthReached: pages.reduce((max, page) => Math.max(max, page.depth), 0),
+    truncated,
+    blockedByRobots,
+    // Failed pages have no title or text, so they are left out
+    duplicates: findDuplicates(scored),
+    // Alternates name the page's address after redirects, not the one requested
+    hreflang: checkHreflangReciprocity(
+      scored.map((page) => ({ url: page.finalUrl ?? page.url, alternates: page.hreflang ?? [] }))
+    ),
+    pages,
+  };
+};
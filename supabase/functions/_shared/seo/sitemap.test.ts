@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDocument, checkSitemapUrl, isValidLastmod, parseSitemap } from './index.ts';
+import type { HttpInfo } from './types.ts';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const URLSET = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/</loc><lastmod>2024-05-01</lastmod></url>
+  <url><loc><![CDATA[https://example.com/search?q=oak&page=2]]></loc></url>
+  <url><loc>https://example.com/tables?size=large&amp;wood=oak</loc><lastmod>May 1st</lastmod></url>
+  <url><loc>https://other.example/</loc></url>
+  <url><lastmod>2024-05-01</lastmod></url>
+</urlset>`;
+
+const INDEX = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+</sitemapindex>`;
+
+const http = (finalUrl: string): HttpInfo => ({
+  status: 200,
+  statusText: 'OK',
+  contentType: 'text/html',
+  finalUrl,
+  bytes: 0,
+  truncated: false,
+  durationMs: 0,
+  redirectCount: 0,
+  longRedirectChain: false,
+  redirectLoop: false,
+});
+
+describe('parseSitemap', () => {
+  const { file, entries, children } = parseSitemap(URLSET, 'https://example.com/sitemap.xml', URLSET.length, false);
+
+  it('reads the entries of a urlset, decoding entities and CDATA', () => {
+    expect(file.type).toBe('urlset');
+    expect(children).toEqual([]);
+    expect(entries.map((entry) => entry.loc)).toEqual([
+      'https://example.com/',
+      'https://example.com/search?q=oak&page=2',
+      'https://example.com/tables?size=large&wood=oak',
+      'https://other.example/',
+    ]);
+  });
+
+  it('reports entries without loc, bad lastmod values and other hosts', () => {
+    expect(file.errors).toContain('1 entries without <loc>');
+    expect(file.warnings).toContain('1 lastmod values are not W3C datetimes');
+    expect(file.warnings).toContain('1 entries are invalid URLs or on another host');
+    expect(entries[2].lastmodValid).toBe(false);
+  });
+
+  it('lists the child sitemaps of an index', () => {
+    const index = parseSitemap(INDEX, 'https://example.com/sitemap.xml', INDEX.length, false);
+    expect(index.file.type).toBe('index');
+    expect(index.entries).toEqual([]);
+    expect(index.children).toEqual(['https://example.com/sitemap-pages.xml', 'https://example.com/sitemap-posts.xml.gz']);
+  });
+
+  it('rejects documents that are not sitemaps', () => {
+    const invalid = parseSitemap('<html><body>Not found</body></html>', 'https://example.com/sitemap.xml', 35, false);
+    expect(invalid.file.type).toBe('invalid');
+    expect(invalid.file.errors).toHaveLength(1);
+  });
+});
+
+describe('isValidLastmod', () => {
+  it('accepts W3C datetimes only', () => {
+    expect(isValidLastmod('2024')).toBe(true);
+    expect(isValidLastmod('2024-05-01T10:30:00+02:00')).toBe(true);
+    expect(isValidLastmod('2024-05-01T10:30')).toBe(false);
+    expect(isValidLastmod('2024-13-01')).toBe(false);
+  });
+});
+
+describe('checkSitemapUrl', () => {
+  const page = (head: string) => parse(`<html><head>${head}</head><body></body></html>`);
+
+  it('treats URLs differing only in serialization as canonical', () => {
+    const analysis = analyzeDocument(page('<link rel="canonical" href="https://example.com/">'), 'https://example.com');
+    const check = checkSitemapUrl('https://example.com', { ...analysis, http: http('https://example.com/') });
+    expect(check.nonCanonical).toBe(false);
+    expect(check.redirected).toBe(false);
+  });
+
+  it('flags other canonicals, noindex and redirects', () => {
+    const analysis = analyzeDocument(
+      page('<link rel="canonical" href="/oak"><meta name="robots" content="NOINDEX">'),
+      'https://example.com/oak'
+    );
+    const check = checkSitemapUrl('https://example.com/old-oak', { ...analysis, http: http('https://example.com/oak') });
+    expect(check.canonical).toBe('https://example.com/oak');
+    expect(check.nonCanonical).toBe(true);
+    expect(check.noindex).toBe(true);
+    expect(check.redirected).toBe(true);
+  });
+});
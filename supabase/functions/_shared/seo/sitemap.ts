@@ -0,0 +1,115 @@
+import { normalizeUrl } from './url.ts';
+import type { SEOAnalysis, SitemapEntry, SitemapFile, SitemapUrlCheck } from './types.ts';
+
+// Limits from sitemaps.org: per file, a sitemap or sitemap index may list at most
+// 50,000 entries and be at most 50MB uncompressed.
+export const MAX_SITEMAP_ENTRIES = 50000;
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+// W3C datetime: YYYY, YYYY-MM, YYYY-MM-DD, or a full date and time with a timezone
+const W3C_DATETIME =
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d))?)?)?$/;
+
+export const isValidLastmod = (value: string) => W3C_DATETIME.test(value.trim());
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlText = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity])
+    .replace(/&#(x[0-9a-f]+|\d+);/gi, (_, code: string) =>
+      String.fromCodePoint(code[0].toLowerCase() === 'x' ? parseInt(code.slice(1), 16) : parseInt(code, 10))
+    )
+    .trim();
+
+// Sitemaps are a flat, well-known format, so elements are matched directly rather
+// than through an XML parser (deno-dom only parses HTML). Namespace prefixes are ignored.
+const readElements = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'gi')), (match) => match[1]);
+
+const readChild = (block: string, tag: string) => {
+  const [value] = readElements(block, tag);
+  return value === undefined ? undefined : decodeXmlText(value);
+};
+
+export interface ParsedSitemap {
+  file: SitemapFile;
+  entries: SitemapEntry[];
+  // Child sitemaps listed by a sitemap index
+  children: string[];
+}
+
+export const parseSitemap = (xml: string, url: string, bytes: number, gzipped: boolean): ParsedSitemap => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const isIndex = /<(?:[\w-]+:)?sitemapindex\b/i.test(xml);
+  const isUrlset = /<(?:[\w-]+:)?urlset\b/i.test(xml);
+
+  const file: SitemapFile = { url, type: 'invalid', entryCount: 0, gzipped, bytes, errors, warnings };
+  if (!isIndex && !isUrlset) {
+    errors.push('Not a sitemap: no <urlset> or <sitemapindex> root element');
+    return { file, entries: [], children: [] };
+  }
+
+  const blocks = readElements(xml, isIndex ? 'sitemap' : 'url');
+  const entries: SitemapEntry[] = [];
+  let missingLoc = 0;
+  let invalidLastmod = 0;
+  for (const block of blocks) {
+    const loc = readChild(block, 'loc');
+    if (!loc) {
+      missingLoc++;
+      continue;
+    }
+    const lastmod = readChild(block, 'lastmod');
+    const lastmodValid = lastmod === undefined || isValidLastmod(lastmod);
+    if (!lastmodValid) invalidLastmod++;
+    entries.push({ loc, ...(lastmod !== undefined ? { lastmod } : {}), lastmodValid });
+  }
+
+  if (missingLoc > 0) errors.push(`${missingLoc} entries without <loc>`);
+  if (invalidLastmod > 0) warnings.push(`${invalidLastmod} lastmod values are not W3C datetimes`);
+  if (entries.length > MAX_SITEMAP_ENTRIES) {
+    errors.push(`${entries.length} entries, more than the ${MAX_SITEMAP_ENTRIES} allowed per file`);
+  }
+  if (bytes > MAX_SITEMAP_BYTES) errors.push('Larger than the 50MB allowed per file');
+  if (entries.length === 0) warnings.push('Sitemap lists no entries');
+
+  const origin = new URL(url).origin;
+  const foreign = entries.filter((entry) => {
+    try {
+      return new URL(entry.loc).origin !== origin;
+    } catch {
+      return true;
+    }
+  }).length;
+  if (foreign > 0) warnings.push(`${foreign} entries are invalid URLs or on another host`);
+
+  file.type = isIndex ? 'index' : 'urlset';
+  file.entryCount = entries.length;
+  return {
+    file,
+    entries: isIndex ? [] : entries,
+    children: isIndex ? entries.map((entry) => entry.loc) : [],
+  };
+};
+
+export const checkSitemapUrl = (url: string, analysis: SEOAnalysis): SitemapUrlCheck => {
+  const finalUrl = analysis.http?.finalUrl ?? url;
+  let canonical = analysis.data.canonical || analysis.data.headers?.linkCanonical || '';
+  try {
+    if (canonical) canonical = new URL(canonical, finalUrl).toString();
+  } catch {
+    // Keep the raw value; an unparseable canonical is still not this URL
+  }
+
+  return {
+    url,
+    status: analysis.http?.status ?? null,
+    canonical,
+    nonCanonical: !!canonical && normalizeUrl(canonical) !== normalizeUrl(url),
+    noindex: !!analysis.data.metaRobots?.toLowerCase().includes('noindex') || !!analysis.data.headers?.noindex,
+    redirected: normalizeUrl(finalUrl) !== normalizeUrl(url),
+  };
+};
@@ -0,0 +1,157 @@
+/// <reference lib="dom" />
+import { normalizeUrl } from './url.ts';
+import type { OgImage, OpenGraphAudit, TwitterCardAudit } from './types.ts';
+
+// Global types from ogp.me; namespaced custom types (app:recipe) are accepted as-is
+const OG_TYPES = new Set([
+  'website', 'article', 'book', 'profile', 'music.song', 'music.album', 'music.playlist', 'music.radio_station',
+  'video.movie', 'video.episode', 'video.tv_show', 'video.other',
+]);
+
+// Every object needs these four to be a valid Open Graph object
+const OG_REQUIRED = ['og:title', 'og:type', 'og:image', 'og:url'];
+
+// Properties ogp.me defines for each type; missing ones are reported, not failed
+const OG_TYPE_PROPERTIES: Record<string, string[]> = {
+  article: ['article:published_time', 'article:author'],
+  book: ['book:author', 'book:isbn'],
+  profile: ['profile:first_name', 'profile:last_name'],
+  'music.song': ['music:duration', 'music:album'],
+  'music.album': ['music:song', 'music:musician'],
+  'music.playlist': ['music:song', 'music:creator'],
+  'music.radio_station': ['music:creator'],
+  'video.movie': ['video:release_date'],
+  'video.episode': ['video:series'],
+};
+
+// Properties whose values must be absolute http(s) URLs
+const OG_URL_PROPERTIES = ['og:url', 'og:image', 'og:image:url', 'og:image:secure_url', 'og:video', 'og:video:url', 'og:video:secure_url', 'og:audio', 'og:audio:url', 'og:audio:secure_url'];
+
+// Type namespaces whose properties belong to the Open Graph object
+const OG_PREFIXES = ['og:', 'article:', 'book:', 'profile:', 'music:', 'video:'];
+
+const TWITTER_CARDS = new Set(['summary', 'summary_large_image', 'app', 'player']);
+
+// Cards that cannot render without these properties
+const TWITTER_CARD_REQUIRED: Record<string, string[][]> = {
+  player: [['twitter:player'], ['twitter:player:width'], ['twitter:player:height']],
+  // Any one of the store ids is enough
+  app: [['twitter:app:id:iphone', 'twitter:app:id:ipad', 'twitter:app:id:googleplay']],
+};
+
+const isAbsoluteUrl = (value: string) => /^https?:\/\/[^/\s]+/i.test(value.trim());
+
+const isPositiveInteger = (value: string) => /^\d+$/.test(value.trim()) && parseInt(value, 10) > 0;
+
+// Reads every meta tag keyed by property, or by name as many sites write them
+const collectMeta = (doc: Document, matches: (key: string) => boolean) => {
+  const properties: Record<string, string[]> = {};
+  doc.querySelectorAll('meta[property], meta[name]').forEach((element) => {
+    const key = (element.getAttribute('property') || element.getAttribute('name') || '').trim().toLowerCase();
+    if (!matches(key)) return;
+    properties[key] = [...(properties[key] ?? []), (element.getAttribute('content') || '').trim()];
+  });
+  return properties;
+};
+
+// Structured og:image:* properties describe the og:image before them, in document order
+const collectImages = (doc: Document): OgImage[] => {
+  const images: OgImage[] = [];
+  doc.querySelectorAll('meta[property], meta[name]').forEach((element) => {
+    const key = (element.getAttribute('property') || element.getAttribute('name') || '').trim().toLowerCase();
+    const value = (element.getAttribute('content') || '').trim();
+    if (key === 'og:image' || (key === 'og:image:url' && !images.length)) {
+      images.push({ url: value });
+      return;
+    }
+    const image = images[images.length - 1];
+    if (!image || !key.startsWith('og:image:')) return;
+    const field = key.slice('og:image:'.length);
+    if (field === 'secure_url') image.secureUrl = value;
+    else if (field === 'type') image.type = value;
+    else if (field === 'width') image.width = value;
+    else if (field === 'height') image.height = value;
+    else if (field === 'alt') image.alt = value;
+  });
+  return images;
+};
+
+export const auditOpenGraph = (doc: Document, url: string, canonical: string): OpenGraphAudit => {
+  const properties = collectMeta(doc, (key) => OG_PREFIXES.some((prefix) => key.startsWith(prefix)));
+  const images = collectImages(doc);
+  const first = (key: string) => properties[key]?.[0] || '';
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (Object.keys(properties).length === 0) {
+    return { properties, images, errors, warnings, canonicalMismatch: false };
+  }
+
+  const missing = OG_REQUIRED.filter((key) => !first(key));
+  if (missing.length > 0) errors.push(`Missing required properties: ${missing.join(', ')}`);
+
+  const type = first('og:type');
+  if (type && !OG_TYPES.has(type) && !type.includes(':')) errors.push(`og:type "${type}" is not an Open Graph type`);
+  const expected = OG_TYPE_PROPERTIES[type] ?? [];
+  const missingForType = expected.filter((key) => !first(key));
+  if (missingForType.length > 0) warnings.push(`og:type ${type} should include ${missingForType.join(', ')}`);
+  const published = first('article:published_time');
+  if (published && Number.isNaN(Date.parse(published))) warnings.push(`article:published_time "${published}" is not an ISO 8601 date`);
+
+  for (const key of OG_URL_PROPERTIES) {
+    for (const value of properties[key] ?? []) {
+      if (value && !isAbsoluteUrl(value)) errors.push(`${key} must be an absolute URL, found "${value}"`);
+      if (key.endsWith(':secure_url') && value && !/^https:/i.test(value)) errors.push(`${key} must use https`);
+    }
+  }
+
+  images.forEach((image, index) => {
+    const label = images.length > 1 ? `og:image #${index + 1}` : 'og:image';
+    for (const dimension of ['width', 'height'] as const) {
+      const value = image[dimension];
+      if (value !== undefined && !isPositiveInteger(value)) errors.push(`${label}:${dimension} "${value}" is not a positive integer`);
+    }
+    if (image.width === undefined || image.height === undefined) warnings.push(`${label} has no width/height, so previews may render late`);
+    if (!image.alt) warnings.push(`${label} has no alt text`);
+  });
+
+  const locales = [...(properties['og:locale'] ?? []), ...(properties['og:locale:alternate'] ?? [])];
+  const badLocales = locales.filter((locale) => !/^[a-z]{2,3}_[A-Z]{2}$/.test(locale));
+  if (badLocales.length > 0) warnings.push(`Locales should look like en_US: ${badLocales.join(', ')}`);
+  if (!first('og:site_name')) warnings.push('No og:site_name');
+
+  // Shares are attributed to og:url, so it should name the same page as the canonical;
+  // reported by its own rule rather than as a warning
+  const ogUrl = first('og:url');
+  const canonicalMismatch = !!ogUrl && !!canonical && normalizeUrl(ogUrl, url) !== normalizeUrl(canonical, url);
+
+  return { properties, images, errors, warnings, canonicalMismatch };
+};
+
+export const auditTwitterCard = (doc: Document): TwitterCardAudit => {
+  const properties = Object.fromEntries(
+    Object.entries(collectMeta(doc, (key) => key.startsWith('twitter:'))).map(([key, values]) => [key, values[0]])
+  );
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (Object.keys(properties).length === 0) return { properties, errors, warnings };
+
+  const card = properties['twitter:card'];
+  if (!card) warnings.push('No twitter:card, so X shows a summary card');
+  else if (!TWITTER_CARDS.has(card)) errors.push(`twitter:card "${card}" is not one of ${Array.from(TWITTER_CARDS).join(', ')}`);
+
+  for (const alternatives of TWITTER_CARD_REQUIRED[card] ?? []) {
+    if (!alternatives.some((key) => properties[key])) errors.push(`A ${card} card needs ${alternatives.join(' or ')}`);
+  }
+
+  const image = properties['twitter:image'] || properties['twitter:image:src'];
+  if (image && !isAbsoluteUrl(image)) errors.push(`twitter:image must be an absolute URL, found "${image}"`);
+  if (image && !properties['twitter:image:alt']) warnings.push('twitter:image has no twitter:image:alt');
+
+  for (const key of ['twitter:site', 'twitter:creator']) {
+    const handle = properties[key];
+    if (handle && !/^@\w{1,15}$/.test(handle)) warnings.push(`${key} "${handle}" is not an @username`);
+  }
+
+  return { properties, errors, warnings };
+};
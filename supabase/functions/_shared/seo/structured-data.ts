@@ -0,0 +1,248 @@
+/// <reference lib="dom" />
+import type {
+  StructuredDataAudit,
+  StructuredDataFormat,
+  StructuredDataItem,
+  StructuredDataValidation,
+} from './types.ts';
+
+type JsonObject = Record<string, unknown>;
+
+interface SchemaRule {
+  required: string[];
+  recommended: string[];
+}
+
+// Property requirements for the schema.org types search engines build rich results
+// from. Nested types (ListItem, Question, Answer) are checked wherever they appear.
+const ARTICLE_RULE: SchemaRule = {
+  required: ['headline'],
+  recommended: ['image', 'author', 'datePublished', 'dateModified', 'publisher'],
+};
+
+const LOCAL_BUSINESS_RULE: SchemaRule = {
+  required: ['name', 'address'],
+  recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification', 'priceRange'],
+};
+
+export const SCHEMA_RULES: Record<string, SchemaRule> = {
+  Article: ARTICLE_RULE,
+  NewsArticle: ARTICLE_RULE,
+  BlogPosting: ARTICLE_RULE,
+  Product: {
+    required: ['name', 'offers|review|aggregateRating'],
+    recommended: ['image', 'description', 'brand', 'sku', 'offers'],
+  },
+  Offer: {
+    required: ['price|priceSpecification'],
+    recommended: ['priceCurrency', 'availability', 'url'],
+  },
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs', 'contactPoint'],
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+  },
+  ListItem: {
+    required: ['position', 'name|item'],
+    recommended: [],
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+  },
+  Question: {
+    required: ['name', 'acceptedAnswer'],
+    recommended: [],
+  },
+  Answer: {
+    required: ['text'],
+    recommended: [],
+  },
+  LocalBusiness: LOCAL_BUSINESS_RULE,
+  Restaurant: LOCAL_BUSINESS_RULE,
+  Store: LOCAL_BUSINESS_RULE,
+};
+
+// "https://schema.org/Product", "schema:Product" and "Product" all name the same type
+const normalizeType = (type: string) => type.trim().replace(/^.*[/#:]/, '');
+
+const getTypes = (node: JsonObject): string[] => {
+  const type = node['@type'];
+  if (typeof type === 'string') return [normalizeType(type)];
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string').map(normalizeType);
+  return [];
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasValue = (node: JsonObject, property: string) => {
+  const value = node[property];
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+const validateNode = (node: JsonObject, path: string, validations: StructuredDataValidation[]) => {
+  for (const type of getTypes(node)) {
+    const rule = SCHEMA_RULES[type];
+    if (!rule) continue;
+    const isMissing = (property: string) => !property.split('|').some((alt) => hasValue(node, alt));
+    validations.push({
+      type,
+      path,
+      missingRequired: rule.required.filter(isMissing),
+      missingRecommended: rule.recommended.filter(isMissing),
+    });
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@') && key !== '@graph') continue;
+    const childPath = path ? `${path}.${key}` : key;
+    if (Array.isArray(value)) {
+      value.forEach((child, idx) => {
+        if (isObject(child)) validateNode(child, `${childPath}[${idx}]`, validations);
+      });
+    } else if (isObject(value)) {
+      validateNode(value, childPath, validations);
+    }
+  }
+};
+
+const collectTypes = (value: unknown, types: Set<string>) => {
+  if (Array.isArray(value)) {
+    value.forEach((child) => collectTypes(child, types));
+  } else if (isObject(value)) {
+    getTypes(value).forEach((type) => types.add(type));
+    Object.values(value).forEach((child) => collectTypes(child, types));
+  }
+};
+
+const buildItem = (format: StructuredDataFormat, data: unknown): StructuredDataItem => {
+  const types = new Set<string>();
+  collectTypes(data, types);
+
+  const validations: StructuredDataValidation[] = [];
+  if (Array.isArray(data)) {
+    data.forEach((node, idx) => {
+      if (isObject(node)) validateNode(node, `[${idx}]`, validations);
+    });
+  } else if (isObject(data)) {
+    validateNode(data, '', validations);
+  }
+
+  return { format, types: Array.from(types), data, validations };
+};
+
+// JSON.parse reports either "at position N" or "(line L column C)" depending on the engine
+const locateJsonError = (message: string, source: string) => {
+  const lineColumn = message.match(/line (\d+) column (\d+)/);
+  if (lineColumn) return { line: parseInt(lineColumn[1], 10), column: parseInt(lineColumn[2], 10) };
+
+  const position = message.match(/position (\d+)/);
+  if (!position) return {};
+  const before = source.slice(0, parseInt(position[1], 10)).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const extractJsonLd = (doc: Document): StructuredDataItem[] =>
+  Array.from(doc.querySelectorAll('script[type="application/ld+json"]')).map((script) => {
+    const source = script.textContent || '';
+    try {
+      return buildItem('json-ld', JSON.parse(source));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON';
+      return {
+        format: 'json-ld' as const,
+        types: [],
+        data: source.trim(),
+        error: { message, ...locateJsonError(message, source) },
+        validations: [],
+      };
+    }
+  });
+
+interface AttributeSyntax {
+  scope: string;
+  type: string;
+  property: string;
+}
+
+const MICRODATA: AttributeSyntax = { scope: 'itemscope', type: 'itemtype', property: 'itemprop' };
+const RDFA: AttributeSyntax = { scope: 'typeof', type: 'typeof', property: 'property' };
+
+// Nearest ancestor (excluding the element itself) that opens an item scope
+const getOwnerScope = (element: Element, syntax: AttributeSyntax) => {
+  let parent = element.parentElement;
+  while (parent && !parent.hasAttribute(syntax.scope)) parent = parent.parentElement;
+  return parent;
+};
+
+const getPropertyValue = (element: Element) => {
+  for (const attribute of ['content', 'datetime', 'href', 'src', 'resource', 'value']) {
+    const value = element.getAttribute(attribute);
+    if (value !== null) return value;
+  }
+  return (element.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+// Microdata and RDFa share a shape: scoped elements declare a type and descendant
+// elements contribute named properties, possibly opening nested scopes themselves.
+const readAttributeItem = (scope: Element, syntax: AttributeSyntax, all: Element[]): JsonObject => {
+  const node: JsonObject = {};
+  const type = scope.getAttribute(syntax.type);
+  if (type) {
+    const types = type.split(/\s+/).filter(Boolean).map(normalizeType);
+    node['@type'] = types.length === 1 ? types[0] : types;
+  }
+
+  for (const element of all) {
+    if (element === scope || getOwnerScope(element, syntax) !== scope) continue;
+    const names = (element.getAttribute(syntax.property) || '').split(/\s+/).filter(Boolean);
+    if (names.length === 0) continue;
+
+    const value = element.hasAttribute(syntax.scope)
+      ? readAttributeItem(element, syntax, all)
+      : getPropertyValue(element);
+    for (const name of names.map(normalizeType)) {
+      const existing = node[name];
+      if (existing === undefined) node[name] = value;
+      else if (Array.isArray(existing)) existing.push(value);
+      else node[name] = [existing, value];
+    }
+  }
+  return node;
+};
+
+const extractAttributeItems = (doc: Document, format: StructuredDataFormat, syntax: AttributeSyntax) => {
+  const all = Array.from(doc.querySelectorAll(`[${syntax.scope}], [${syntax.property}]`));
+  return all
+    .filter((element) => element.hasAttribute(syntax.scope))
+    // Only top-level items; nested scopes are read as property values of their owner
+    .filter((element) => !element.hasAttribute(syntax.property) || !getOwnerScope(element, syntax))
+    .map((element) => buildItem(format, readAttributeItem(element, syntax, all)));
+};
+
+export const extractStructuredData = (doc: Document): StructuredDataAudit => {
+  const items = [
+    ...extractJsonLd(doc),
+    ...extractAttributeItems(doc, 'microdata', MICRODATA),
+    ...extractAttributeItems(doc, 'rdfa', RDFA),
+  ];
+
+  const types = new Set<string>();
+  items.forEach((item) => item.types.forEach((type) => types.add(type)));
+  const validations = items.flatMap((item) => item.validations);
+
+  return {
+    items,
+    types: Array.from(types),
+    errors: items.filter((item) => item.error).length +
+      validations.filter((validation) => validation.missingRequired.length > 0).length,
+    warnings: validations.filter((validation) => validation.missingRecommended.length > 0).length,
+  };
+};
@@ -0,0 +1,35 @@
+/// <reference lib="dom" />
+
+// Elements whose text is never shown to readers
+const HIDDEN_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME']);
+
+// Block-level elements end a run of text, so words on either side do not merge
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION',
+  'TABLE', 'TD', 'TH', 'TR', 'UL',
+]);
+
+// Walks childNodes rather than using innerText, which deno-dom does not implement.
+// Elements matching exclude are skipped along with everything inside them.
+export const extractVisibleText = (root: Element | null, exclude?: (element: Element) => boolean): string => {
+  if (!root) return '';
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      parts.push(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const tag = (node as Element).tagName.toUpperCase();
+    if (HIDDEN_TAGS.has(tag) || exclude?.(node as Element)) return;
+    const block = BLOCK_TAGS.has(tag);
+    if (block) parts.push(' ');
+    node.childNodes.forEach(walk);
+    if (block) parts.push(' ');
+  };
+  walk(root);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+};
+
+export const splitWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [];
@@ -0,0 +1,616 @@
+// Canonical result schema shared by the analyze-seo edge function and the web UI.
+// Keep this file free of runtime code so both Deno and Vite can import it as-is.
+
+export interface SEOData {
+  title?: string;
+  description?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  ogImage?: string;
+  ogType?: string;
+  twitterCard?: string;
+  twitterTitle?: string;
+  twitterDescription?: string;
+  twitterImage?: string;
+  ogUrl?: string;
+  ogSiteName?: string;
+  ogLocale?: string;
+  ogImageWidth?: string;
+  ogImageHeight?: string;
+  ogImageAlt?: string;
+  twitterSite?: string;
+  twitterCreator?: string;
+  canonical?: string;
+  keywords?: string;
+  url: string;
+  h1?: string;
+  metaRobots?: string;
+  lang?: string;
+  viewport?: string;
+  charset?: string;
+  headings?: HeadingAudit;
+  images?: ImageAudit;
+  links?: LinkAudit;
+  structuredData?: StructuredDataAudit;
+  headers?: HeaderAudit;
+  serp?: SerpAudit;
+  robots?: RobotsAudit;
+  // Simhash of the visible body text as 16 hex digits; absent for pages with little text
+  contentHash?: string;
+  hreflang?: HreflangAudit;
+  content?: ContentAudit;
+  // Only when a target keyword was given
+  keyword?: KeywordAudit;
+  openGraph?: OpenGraphAudit;
+  twitter?: TwitterCardAudit;
+}
+
+// An og:image with the og:image:* properties that follow it; dimensions as written
+export interface OgImage {
+  url: string;
+  secureUrl?: string;
+  type?: string;
+  width?: string;
+  height?: string;
+  alt?: string;
+}
+
+export interface OpenGraphAudit {
+  // Every og:* and type namespace (article:*, video:*, ...) property; repeated ones in document order
+  properties: Record<string, string[]>;
+  images: OgImage[];
+  // Violations of ogp.me: missing required properties, unknown types, relative URLs
+  errors: string[];
+  warnings: string[];
+  // og:url and the canonical name different pages
+  canonicalMismatch: boolean;
+}
+
+export interface TwitterCardAudit {
+  // Every twitter:* property; only the first of repeated ones counts
+  properties: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+}
+
+// position is the 0-based word index of the first occurrence
+export interface KeywordPlacement {
+  found: boolean;
+  position?: number;
+}
+
+export interface NgramCount {
+  phrase: string;
+  count: number;
+}
+
+export interface KeywordAudit {
+  // Lowercased and split into words, as matched
+  keyword: string;
+  title: KeywordPlacement;
+  description: KeywordPlacement;
+  h1: KeywordPlacement;
+  urlSlug: KeywordPlacement;
+  firstParagraph: KeywordPlacement;
+  // h2-h6; the h1 is reported on its own
+  headings: { total: number; withKeyword: number };
+  imageAlts: { total: number; withKeyword: number };
+  // Occurrences in the visible body text, and the share of its words they make up, in percent
+  occurrences: number;
+  density: number;
+  // Most repeated phrases in the body, stop words trimmed
+  topNgrams: { unigrams: NgramCount[]; bigrams: NgramCount[]; trigrams: NgramCount[] };
+  warnings: string[];
+}
+
+export interface ContentAudit {
+  // Counted in the main content only: navigation, headers, footers and asides are left out
+  wordCount: number;
+  paragraphCount: number;
+  sentenceCount: number;
+  // Flesch reading ease (higher is easier) and Flesch-Kincaid grade; English pages only
+  readability?: { fleschReadingEase: number; gradeLevel: number };
+  // Visible text of the whole page as a percentage of the HTML
+  textToHtmlRatio: number;
+  thin: boolean;
+  warnings: string[];
+}
+
+export interface SnippetLimits {
+  minLength: number;
+  maxLength: number;
+  // Font size in px the search result renders the text at
+  fontSize: number;
+  desktopPx: number;
+  mobilePx: number;
+}
+
+export interface SnippetTextAudit {
+  // Whitespace-collapsed text as a search engine would show it
+  text: string;
+  length: number;
+  // Estimated rendered width in px
+  pixelWidth: number;
+  tooShort: boolean;
+  tooLong: boolean;
+  truncatedDesktop: boolean;
+  truncatedMobile: boolean;
+  // Text as it would appear in the result, cut with an ellipsis when too wide
+  desktopPreview: string;
+  mobilePreview: string;
+  duplicateWords: string[];
+  warnings: string[];
+}
+
+export interface SerpAudit {
+  title: SnippetTextAudit;
+  description: SnippetTextAudit;
+}
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+export interface StructuredDataValidation {
+  type: string;
+  // Location of the validated node inside the block, e.g. "itemListElement[1]"
+  path: string;
+  // Alternatives are joined with "|" when any one of them satisfies the rule
+  missingRequired: string[];
+  missingRecommended: string[];
+}
+
+export interface StructuredDataItem {
+  format: StructuredDataFormat;
+  types: string[];
+  data: unknown;
+  error?: { message: string; line?: number; column?: number };
+  validations: StructuredDataValidation[];
+}
+
+export interface StructuredDataAudit {
+  items: StructuredDataItem[];
+  types: string[];
+  errors: number;
+  warnings: number;
+}
+
+export type LinkType = 'internal' | 'external' | 'anchor' | 'mailto' | 'tel' | 'other';
+
+export interface LinkInfo {
+  href: string;
+  text: string;
+  type: LinkType;
+  rel: string[];
+  nofollow: boolean;
+  sponsored: boolean;
+  ugc: boolean;
+  noopener: boolean;
+  emptyText: boolean;
+  genericText: boolean;
+}
+
+export interface LinkAudit {
+  links: LinkInfo[];
+  total: number;
+  counts: Record<LinkType, number>;
+  nofollow: number;
+  emptyText: number;
+  genericText: number;
+}
+
+export interface HeadingNode {
+  level: number;
+  text: string;
+  children: HeadingNode[];
+}
+
+export interface ImageInfo {
+  src: string;
+  // null when the attribute is missing; an empty string marks a decorative image
+  alt: string | null;
+  width: string;
+  height: string;
+  loading: string;
+  hasSrcset: boolean;
+  extension: string;
+}
+
+export interface ImageAudit {
+  images: ImageInfo[];
+  total: number;
+  missingAlt: number;
+  decorative: number;
+  missingDimensions: number;
+  lazyLoaded: number;
+  withSrcset: number;
+}
+
+export interface HeadingAudit {
+  outline: HeadingNode[];
+  counts: Record<'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6', number>;
+  multipleH1: boolean;
+  skippedLevels: { from: number; to: number; text: string }[];
+  emptyCount: number;
+  tooLong: string[];
+  warnings: string[];
+}
+
+// SEO-relevant response headers; only present when the page was fetched over HTTP
+export interface HeaderAudit {
+  xRobotsTag: string;
+  noindex: boolean;
+  nofollow: boolean;
+  cacheControl: string;
+  etag: string;
+  lastModified: string;
+  cacheable: boolean;
+  contentEncoding: string;
+  compressed: boolean;
+  strictTransportSecurity: string;
+  hstsMaxAge: number | null;
+  contentTypeCharset: string;
+  linkCanonical: string;
+  warnings: string[];
+}
+
+export interface HreflangEntry {
+  hreflang: string;
+  // Absolute URL of the alternate
+  href: string;
+  valid: boolean;
+  error?: string;
+}
+
+// link rel="alternate" hreflang annotations in the page head
+export interface HreflangAudit {
+  entries: HreflangEntry[];
+  // One of the annotations points at the page itself
+  selfReference: boolean;
+  xDefault: boolean;
+  // Codes used for more than one URL
+  conflicting: string[];
+  warnings: string[];
+}
+
+export interface HreflangPage {
+  url: string;
+  alternates: HreflangEntry[];
+}
+
+// Return links between the pages of a batch or crawl
+export interface HreflangReciprocity {
+  // Alternate links whose target was analyzed too
+  checked: number;
+  // Alternate links pointing outside the analyzed pages
+  unverified: number;
+  missingReturnLinks: { from: string; to: string; hreflang: string }[];
+}
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  // Path pattern; "*" is a wildcard and a trailing "$" anchors the end
+  path: string;
+}
+
+export interface RobotsGroup {
+  // Lowercased user-agent lines heading the group
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// Whether one crawler may fetch the page, and the rule that decided it
+export interface RobotsCheck {
+  userAgent: string;
+  allowed: boolean;
+  // User-agent of the group that applied; null when no group did
+  group: string | null;
+  rule: RobotsRule | null;
+  crawlDelay?: number;
+}
+
+// robots.txt of the page's origin; only present when the page was fetched over HTTP
+export interface RobotsAudit {
+  url: string;
+  status: number | null;
+  // missing (4xx) allows everything, server-error (5xx) disallows everything
+  availability: 'found' | 'missing' | 'server-error' | 'unreachable';
+  checks: RobotsCheck[];
+  groups: number;
+  sitemaps: string[];
+  warnings: string[];
+}
+
+// keyword rules only count when a target keyword is given
+export type ScoreCategory = 'basic' | 'social' | 'technical' | 'images' | 'keyword';
+
+// n/a: the rule had nothing to check (no response headers, no target keyword) and is left out of the score
+export type RuleStatus = 'pass' | 'warn' | 'fail' | 'n/a';
+
+export type RuleSeverity = 'error' | 'warning' | 'notice';
+
+export interface RuleResult {
+  id: string;
+  category: ScoreCategory;
+  severity: RuleSeverity;
+  status: RuleStatus;
+  weight: number;
+  points: number;
+  message: string;
+  observed?: string;
+  // Set when the rule can point at specific offending elements
+  selector?: string;
+}
+
+export interface SEOScore {
+  // Normalized to 0-100 whatever the weights of the profile add up to
+  total: number;
+  breakdown: Record<ScoreCategory, number>;
+  max: Record<ScoreCategory, number>;
+  profile: string;
+  rules: RuleResult[];
+}
+
+// A failing or partially passing rule, phrased as something to fix. Issues are
+// sorted most urgent first; CI jobs can fail the build on any 'error'.
+export interface SEOIssue {
+  ruleId: string;
+  severity: RuleSeverity;
+  category: ScoreCategory;
+  message: string;
+  selector: string;
+  observed: string;
+  expected: string;
+  fix: string;
+}
+
+// What changed between a redirecting URL and its target
+export type RedirectKind = 'https' | 'www' | 'trailing-slash' | 'host' | 'other';
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+  kind: RedirectKind;
+}
+
+export interface LinkCheckResult {
+  url: string;
+  status: number | null;
+  ok: boolean;
+  method: 'HEAD' | 'GET';
+  redirected: boolean;
+  finalUrl: string;
+  timedOut: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+export interface LinkCheckReport {
+  checked: number;
+  broken: number;
+  redirected: number;
+  timedOut: number;
+  // Links beyond the per-request limit that were not checked
+  skipped: number;
+  results: LinkCheckResult[];
+}
+
+// Transport details of the fetch that produced the analyzed HTML
+export interface HttpInfo {
+  status: number;
+  statusText: string;
+  contentType: string;
+  finalUrl: string;
+  bytes: number;
+  truncated: boolean;
+  durationMs: number;
+  redirectCount: number;
+  longRedirectChain: boolean;
+  redirectLoop: boolean;
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  // False when lastmod is present but not a W3C datetime
+  lastmodValid: boolean;
+}
+
+export interface SitemapFile {
+  url: string;
+  type: 'index' | 'urlset' | 'invalid';
+  // <url> entries for a urlset, <sitemap> entries for an index
+  entryCount: number;
+  gzipped: boolean;
+  bytes: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// Indexability of a sitemap URL, from analyzing the page it points to
+export interface SitemapUrlCheck {
+  url: string;
+  status: number | null;
+  canonical: string;
+  // The page declares a different canonical URL than the one listed
+  nonCanonical: boolean;
+  noindex: boolean;
+  // The listed URL redirects somewhere else
+  redirected: boolean;
+  error?: string;
+}
+
+export interface SitemapReport {
+  // Where the sitemaps were found: robots.txt Sitemap lines or the /sitemap.xml fallback
+  source: 'robots.txt' | 'default' | 'none';
+  sitemaps: SitemapFile[];
+  totalUrls: number;
+  invalidLastmod: number;
+  // First URLs across all sitemaps, capped to keep responses small
+  urls: SitemapEntry[];
+  checks: SitemapUrlCheck[];
+  warnings: string[];
+}
+
+export interface SEOAnalysis {
+  // Id of the stored run in the analyses table, when history is enabled
+  id?: string;
+  data: SEOData;
+  score: SEOScore;
+  issues?: SEOIssue[];
+  http?: HttpInfo;
+  redirects?: RedirectHop[];
+  linkCheck?: LinkCheckReport;
+  sitemap?: SitemapReport;
+  render?: RenderReport;
+}
+
+export type ComparedValue = string | number | boolean | null;
+
+export interface FieldChange {
+  // Dotted path into SEOData or the HTTP info, e.g. "title" or "images.missingAlt"
+  field: string;
+  before: ComparedValue;
+  after: ComparedValue;
+}
+
+export interface RuleChange {
+  id: string;
+  category: ScoreCategory;
+  severity: RuleSeverity;
+  // null when the rule did not exist in that snapshot
+  before: RuleStatus | null;
+  after: RuleStatus | null;
+  pointsDelta: number;
+  message: string;
+}
+
+export interface AnalysisComparison {
+  fieldChanges: FieldChange[];
+  // Passed before and no longer does
+  newlyFailing: RuleChange[];
+  // Did not pass before and now does
+  newlyPassing: RuleChange[];
+  // Still not passing, but the status moved between warn and fail
+  statusChanges: RuleChange[];
+  scoreDelta: {
+    total: number;
+    breakdown: Record<ScoreCategory, number>;
+  };
+}
+
+export type CrawlJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type DuplicateField = 'title' | 'description' | 'h1';
+
+// What duplicate detection needs to know about each page of a batch or crawl
+export interface DuplicateCandidate {
+  url: string;
+  title?: string;
+  description?: string;
+  h1?: string;
+  contentHash?: string;
+}
+
+// Pages sharing the same value, compared case-insensitively
+export interface DuplicateCluster {
+  field: DuplicateField;
+  value: string;
+  urls: string[];
+}
+
+// Pages whose body text fingerprints are nearly identical
+export interface NearDuplicateCluster {
+  urls: string[];
+  // Lowest fingerprint similarity between pages linked into the cluster, 0-100
+  similarity: number;
+}
+
+export interface DuplicateReport {
+  title: DuplicateCluster[];
+  description: DuplicateCluster[];
+  h1: DuplicateCluster[];
+  nearDuplicates: NearDuplicateCluster[];
+  // Pages in at least one cluster
+  affectedPages: number;
+}
+
+export interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  // Path globs; "*" matches any run of characters, e.g. "/blog/*"
+  include: string[];
+  exclude: string[];
+  profile: string;
+  // Scoring overrides applied to every page, as for a single analysis
+  weights?: Record<string, number>;
+  targetKeyword?: string;
+}
+
+export interface CrawlPageResult {
+  url: string;
+  // Address after redirects, when it differs from url
+  finalUrl?: string;
+  depth: number;
+  // null when the page could not be fetched at all
+  status: number | null;
+  score: number | null;
+  title: string;
+  description: string;
+  h1: string;
+  contentHash?: string;
+  hreflang?: HreflangEntry[];
+  issues: { ruleId: string; severity: RuleSeverity }[];
+  issueCounts: Record<RuleSeverity, number>;
+  // Id of the stored analysis of this page, when history is enabled
+  analysisId?: string;
+  error?: string;
+}
+
+export interface SiteReport {
+  startUrl: string;
+  pagesCrawled: number;
+  averageScore: number;
+  issueCounts: Record<RuleSeverity, number>;
+  // Rules failing on the most pages first
+  topIssues: { ruleId: string; severity: RuleSeverity; pages: number }[];
+  // Pages answering 4xx/5xx or failing to load
+  errorPages: number;
+  maxDepthReached: number;
+  // True when maxPages stopped the crawl with URLs still queued
+  truncated: boolean;
+  // Internal links not crawled because robots.txt disallows them for the crawler
+  blockedByRobots: string[];
+  duplicates: DuplicateReport;
+  hreflang: HreflangReciprocity;
+  pages: CrawlPageResult[];
+}
+
+export interface CrawlJob {
+  id: string;
+  startUrl: string;
+  status: CrawlJobStatus;
+  options: CrawlOptions;
+  pagesCrawled: number;
+  report: SiteReport | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Raw markup against the DOM after JavaScript ran; the analysis itself is of the rendered DOM
+export interface RenderReport {
+  renderer: string;
+  durationMs: number;
+  // Total score of the raw markup, before rendering
+  rawScore: number;
+  // before is the raw markup, after the rendered DOM
+  comparison: AnalysisComparison;
+  // Fields empty in the raw markup, i.e. invisible to crawlers that run no JavaScript
+  onlyRendered: string[];
+}
@@ -0,0 +1,18 @@
+// Address comparisons shared by the analyzers, so every check agrees on when two
+// URLs name the same page
+
+// Serialized through URL so spellings of the same address (no root slash, host case,
+// default port) compare equal; the fragment never reaches the server. Relative values
+// resolve against base; unparseable ones are kept as written, minus the fragment.
+export const normalizeUrl = (url: string, base?: string) => {
+  try {
+    const parsed = new URL(url, base);
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return url.split('#')[0];
+  }
+};
+
+// www.example.com and example.com are the same site
+export const stripWww = (host: string) => host.replace(/^www\./, '');
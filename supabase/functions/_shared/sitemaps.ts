@@ -0,0 +1,121 @@
+// Finds a site's sitemaps (robots.txt first, /sitemap.xml as a fallback), follows
+// sitemap indexes and collects every listed URL into a SitemapReport.
+import {
+  parseSitemap,
+  readRobotsSitemaps,
+  type SitemapEntry,
+  type SitemapFile,
+  type SitemapReport,
+} from "./seo/index.ts";
+import { fetchPage, type FetchPageOptions } from "./fetcher.ts";
+import { fetchRobotsTxt } from "./robots.ts";
+
+// Keeps index fan-out bounded; large sites split sitemaps into hundreds of files
+const MAX_SITEMAP_FILES = 20;
+const MAX_REPORTED_URLS = 500;
+const SITEMAP_MAX_BYTES = 10 * 1024 * 1024;
+
+const isGzip = (body: Uint8Array) => body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+
+// Decompressed chunk by chunk and given up past maxBytes, so a small .xml.gz that
+// expands to gigabytes cannot exhaust the function's memory
+const gunzip = async (body: Uint8Array, maxBytes: number) => {
+  const reader = new Blob([body]).stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  const decoder = new TextDecoder();
+  const parts: string[] = [];
+  let bytes = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Sitemap too large: more than ${maxBytes} bytes once decompressed`);
+    }
+    parts.push(decoder.decode(value, { stream: true }));
+  }
+  parts.push(decoder.decode());
+  return { xml: parts.join(''), bytes };
+};
+
+const fetchSitemap = async (url: string, options: FetchPageOptions) => {
+  const page = await fetchPage(url, {
+    ...options,
+    accept: 'application/xml,text/xml;q=0.9,*/*;q=0.8',
+    maxBodyBytes: SITEMAP_MAX_BYTES,
+  });
+  if (page.status >= 400) throw new Error(`HTTP ${page.status}`);
+
+  // Servers that send Content-Encoding: gzip are decoded by fetch; .xml.gz files are not
+  const gzipped = isGzip(page.body);
+  const { xml, bytes } = gzipped ? await gunzip(page.body, SITEMAP_MAX_BYTES) : { xml: page.html, bytes: page.bytes };
+  const parsed = parseSitemap(xml, page.finalUrl, bytes, gzipped);
+  if (page.truncated) parsed.file.warnings.push(`Truncated after ${SITEMAP_MAX_BYTES} bytes`);
+  return parsed;
+};
+
+const findSitemapUrls = async (origin: string, options: FetchPageOptions) => {
+  const robots = await fetchRobotsTxt(origin, options);
+  const listed = readRobotsSitemaps(robots.text);
+  if (listed.length > 0) return { source: 'robots.txt' as const, urls: listed };
+  return { source: 'default' as const, urls: [`${origin}/sitemap.xml`] };
+};
+
+export const discoverSitemaps = async (
+  siteUrl: string,
+  options: FetchPageOptions
+): Promise<{ report: SitemapReport; entries: SitemapEntry[] }> => {
+  const origin = new URL(siteUrl).origin;
+  const { source, urls } = await findSitemapUrls(origin, options);
+
+  const queue = [...urls];
+  const seen = new Set(queue);
+  const sitemaps: SitemapFile[] = [];
+  const entries: SitemapEntry[] = [];
+  const warnings: string[] = [];
+
+  while (queue.length > 0) {
+    if (sitemaps.length >= MAX_SITEMAP_FILES) {
+      warnings.push(`Stopped after ${MAX_SITEMAP_FILES} sitemap files, ${queue.length} not read`);
+      break;
+    }
+    const url = queue.shift() as string;
+    try {
+      const parsed = await fetchSitemap(url, options);
+      sitemaps.push(parsed.file);
+      entries.push(...parsed.entries);
+      for (const child of parsed.children) {
+        if (!seen.has(child)) {
+          seen.add(child);
+          queue.push(child);
+        }
+      }
+    } catch (error) {
+      sitemaps.push({
+        url,
+        type: 'invalid',
+        entryCount: 0,
+        gzipped: false,
+        bytes: 0,
+        errors: [`Could not be fetched: ${error instanceof Error ? error.message : 'unknown error'}`],
+        warnings: [],
+      });
+    }
+  }
+
+  const readable = sitemaps.filter((sitemap) => sitemap.type !== 'invalid');
+  if (readable.length === 0) warnings.push('No readable sitemap found');
+
+  return {
+    report: {
+      source: readable.length === 0 && source === 'default' ? 'none' : source,
+      sitemaps,
+      totalUrls: entries.length,
+      invalidLastmod: entries.filter((entry) => !entry.lastmodValid).length,
+      urls: entries.slice(0, MAX_REPORTED_URLS),
+      checks: [],
+      warnings,
+    },
+    entries,
+  };
+};
@@ -1,120 +1,108 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+import {
+  buildIssues,
+  calculateSEOScore,
+  checkHreflangReciprocity,
+  checkSitemapUrl,
+  compareAnalyses,
+  findDuplicates,
+  type LinkCheckReport,
+  type SitemapReport,
+  type ScoringOptions,
+  type SEOAnalysis,
+} from "../_shared/seo/index.ts";
+import { checkLinks } from "../_shared/link-checker.ts";
+import { loadAnalysis, saveAnalysis } from "../_shared/history.ts";
+import { analyzeHtml, analyzePage } from "../_shared/analyze-page.ts";
+import { discoverSitemaps } from "../_shared/sitemaps.ts";
+import { mapWithConcurrency } from "../_shared/pool.ts";
+import { assertPublicUrl, DEFAULT_MAX_BODY_BYTES, type FetchPageOptions } from "../_shared/fetcher.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getFetchOptions, getScoringError, readRequestBody } from "../_shared/request-options.ts";
+import { getRenderer, type PageRenderer } from "../_shared/renderer.ts";
+
+const analyzeUrl = async (
+  url: string,
+  options: FetchPageOptions,
+  scoring: ScoringOptions,
+  renderer?: PageRenderer
+): Promise<SEOAnalysis> => {
+  const result = await analyzePage(url, options, scoring, renderer);
+  const id = await saveAnalysis(url, result);
+  return id ? { id, ...result } : result;
 };
 
-interface SEOData {
-  title?: string;
-  description?: string;
-  ogTitle?: string;
-  ogDescription?: string;
-  ogImage?: string;
-  ogType?: string;
-  twitterCard?: string;
-  twitterTitle?: string;
-  twitterDescription?: string;
-  twitterImage?: string;
-  canonical?: string;
-  keywords?: string;
-  url: string;
-  h1?: string;
-  metaRobots?: string;
-  lang?: string;
-  viewport?: string;
-  charset?: string;
-}
-
-interface SEOScore {
-  total: number;
-  breakdown: {
-    basic: number;
-    social: number;
-    technical: number;
-  };
-}
+const isCacheable = (analysis: SEOAnalysis) =>
+  !!analysis.http && analysis.http.status >= 200 && analysis.http.status < 300;
 
-const extractMetaData = (html: string, url: string): SEOData => {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(html, 'text/html');
-  
-  const getMetaContent = (name: string, property?: string) => {
-    if (property) {
-      const element = doc.querySelector(`meta[property="${property}"]`);
-      return element?.getAttribute('content') || '';
-    }
-    const element = doc.querySelector(`meta[name="${name}"]`) || 
-                   doc.querySelector(`meta[property="${name}"]`);
-    return element?.getAttribute('content') || '';
-  };
+// Cached extractions are re-scored so each request gets the profile it asked for
+const rescore = (analysis: SEOAnalysis, scoring: ScoringOptions) => {
+  const score = calculateSEOScore(analysis.data, scoring);
+  return { score, issues: buildIssues(score) };
+};
 
-  const title = doc.querySelector('title')?.textContent || '';
-  const canonical = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || '';
-  const h1 = doc.querySelector('h1')?.textContent || '';
-  const htmlElement = doc.querySelector('html');
-  const lang = htmlElement?.getAttribute('lang') || '';
-
-  return {
-    title,
-    description: getMetaContent('description'),
-    ogTitle: getMetaContent('', 'og:title'),
-    ogDescription: getMetaContent('', 'og:description'),
-    ogImage: getMetaContent('', 'og:image'),
-    ogType: getMetaContent('', 'og:type'),
-    twitterCard: getMetaContent('twitter:card'),
-    twitterTitle: getMetaContent('twitter:title'),
-    twitterDescription: getMetaContent('twitter:description'),
-    twitterImage: getMetaContent('twitter:image'),
-    canonical,
-    keywords: getMetaContent('keywords'),
-    h1,
-    metaRobots: getMetaContent('robots'),
-    lang,
-    viewport: getMetaContent('viewport'),
-    charset: doc.querySelector('meta[charset]')?.getAttribute('charset') || '',
-    url
-  };
+// A compare side is either a URL to analyze now or the id of a stored run. Stored
+// runs are re-scored so both sides use the same rules and profile.
+const resolveSnapshot = async (ref: string, options: FetchPageOptions, scoring: ScoringOptions) => {
+  if (/^https?:\/\//i.test(ref)) {
+    return { url: ref, ...(await analyzeUrl(ref, options, scoring)) };
+  }
+  const stored = await loadAnalysis(ref);
+  return stored ? { ...stored, ...rescore(stored, scoring) } : null;
 };
 
-const calculateSEOScore = (data: SEOData): SEOScore => {
-  let basicScore = 0;
-  let socialScore = 0;
-  let technicalScore = 0;
-
-  // Basic SEO (40 points max)
-  if (data.title) basicScore += 15;
-  if (data.description) basicScore += 15;
-  if (data.h1) basicScore += 10;
-
-  // Social Media (30 points max)
-  if (data.ogTitle || data.title) socialScore += 8;
-  if (data.ogDescription || data.description) socialScore += 8;
-  if (data.ogImage) socialScore += 14;
-
-  // Technical SEO (30 points max)
-  if (data.canonical) technicalScore += 10;
-  if (data.lang) technicalScore += 5;
-  if (data.viewport) technicalScore += 5;
-  if (data.charset) technicalScore += 5;
-  if (!data.metaRobots || !data.metaRobots.includes('noindex')) technicalScore += 5;
-
-  const total = basicScore + socialScore + technicalScore;
-
-  return {
-    total,
-    breakdown: {
-      basic: basicScore,
-      social: socialScore,
-      technical: technicalScore
+const DEFAULT_SITEMAP_CHECKS = 10;
+const MAX_SITEMAP_CHECKS = 25;
+
+// Reads the site's sitemaps and analyzes the first listed URLs to flag noindex,
+// non-canonical and redirecting entries. With seedBatch the analyses of those
+// URLs are returned (and stored) like a batch request.
+const auditSitemaps = async (
+  url: string,
+  body: Record<string, unknown>,
+  options: FetchPageOptions,
+  scoring: ScoringOptions
+) => {
+  const { report, entries } = await discoverSitemaps(url, options);
+  const limit = typeof body.sitemapLimit === 'number' && body.sitemapLimit > 0
+    ? Math.min(Math.floor(body.sitemapLimit), MAX_SITEMAP_CHECKS)
+    : DEFAULT_SITEMAP_CHECKS;
+  const seedBatch = body.seedBatch === true;
+
+  const results = await mapWithConcurrency(entries.slice(0, limit), 3, async ({ loc }) => {
+    try {
+      const analysis = seedBatch ? await analyzeUrl(loc, options, scoring) : await analyzePage(loc, options, scoring);
+      return { url: loc, success: true as const, analysis };
+    } catch (error) {
+      return { url: loc, success: false as const, error: error instanceof Error ? error.message : 'Analysis failed' };
     }
+  });
+
+  const sitemap: SitemapReport = {
+    ...report,
+    checks: results.map((result) =>
+      result.success
+        ? checkSitemapUrl(result.url, result.analysis)
+        : { url: result.url, status: null, canonical: '', nonCanonical: false, noindex: false, redirected: false, error: result.error }
+    ),
   };
+  const sitemapResults = seedBatch
+    ? results.map((result) =>
+      result.success ? { url: result.url, ...result.analysis, success: true } : result
+    )
+    : undefined;
+  return { sitemap, sitemapResults };
 };
 
 // Simple in-memory cache for demo (use Redis/Supabase for production)
 const cache = new Map<string, { data: any; timestamp: number }>();
 const CACHE_TTL = 3600000; // 1 hour
 
+// The fetch options change what is fetched (redirects, truncation) and the robots verdicts
+// (user agent), so a result is only reused for a request with the same ones
+const cacheKey = (url: string, options: FetchPageOptions) =>
+  JSON.stringify([url, options.userAgent, options.followRedirects, options.timeoutMs, options.maxBodyBytes]);
+
 // Rate limiting (simple in-memory, use proper solution for production)
 const rateLimits = new Map<string, number[]>();
 const RATE_LIMIT = 10; // requests per minute
@@ -155,7 +143,91 @@ serve(async (req) => {
       );
     }
 
-    const { url, urls } = await req.json();
+    const body = await readRequestBody(req);
+    const { url, urls, checkLinks: shouldCheckLinks } = body;
+    const fetchOptions = getFetchOptions(body);
+
+    const scoringError = getScoringError(body);
+    if (scoringError) {
+      return new Response(
+        JSON.stringify({ error: scoringError }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    const scoring: ScoringOptions = { profile: body.profile, weights: body.weights, targetKeyword: body.targetKeyword };
+
+    // Compare two snapshots of a page (or two pages, e.g. staging vs production)
+    if (body.action === 'compare') {
+      const { before, after } = body;
+      if (typeof before !== 'string' || !before || typeof after !== 'string' || !after) {
+        return new Response(
+          JSON.stringify({
+            error: 'Compare requires "before" and "after"',
+            hint: 'Each side is a stored analysis id or a URL starting with http:// or https://'
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const [previous, next] = await Promise.all([
+        resolveSnapshot(before, fetchOptions, scoring),
+        resolveSnapshot(after, fetchOptions, scoring),
+      ]);
+      if (!previous || !next) {
+        return new Response(
+          JSON.stringify({ error: `Analysis not found: ${previous ? after : before}` }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, before: previous, after: next, comparison: compareAnalyses(previous, next) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Pre-rendered markup posted directly, for pages the function cannot reach
+    if (body.html !== undefined) {
+      const { html } = body;
+      if (typeof html !== 'string' || !html.trim() || typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+        return new Response(
+          JSON.stringify({
+            error: 'HTML analysis requires "html" and the page "url"',
+            hint: 'The url (starting with http:// or https://) resolves relative links, images and canonicals'
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      if (new TextEncoder().encode(html).length > (fetchOptions.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES)) {
+        return new Response(
+          JSON.stringify({ error: 'HTML is larger than maxBodySize' }),
+          {
+            status: 413,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      console.log('Analyzing posted HTML for:', url);
+      const analysis = analyzeHtml(html, url, scoring);
+      const id = await saveAnalysis(url, analysis);
+      return new Response(
+        JSON.stringify({ success: true, ...(id ? { id } : {}), ...analysis, cached: false }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     // Support batch analysis
     if (urls && Array.isArray(urls)) {
@@ -172,25 +244,19 @@ serve(async (req) => {
       const results = await Promise.all(
         urls.map(async (u: string) => {
           try {
-            // Check cache
-            const cached = cache.get(u);
-            if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-              return { url: u, ...cached.data, cached: true };
+            // Check cache; keyword audits depend on the phrase, so those requests skip it
+            const cached = cache.get(cacheKey(u, fetchOptions));
+            if (!scoring.targetKeyword && cached && Date.now() - cached.timestamp < CACHE_TTL) {
+              return { url: u, ...cached.data, ...rescore(cached.data, scoring), cached: true };
             }
 
-            const proxyUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(u)}`;
-            const response = await fetch(proxyUrl);
-            if (!response.ok) throw new Error(`Failed to fetch: ${response.status}`);
-            
-            const data = await response.json();
-            if (!data.contents) throw new Error('No content received');
-
-            const seoData = extractMetaData(data.contents, u);
-            const seoScore = calculateSEOScore(seoData);
-            const result = { data: seoData, score: seoScore, success: true };
+            const analysis = await analyzeUrl(u, fetchOptions, scoring);
+            const result = { ...analysis, success: true };
             
             // Cache result
-            cache.set(u, { data: result, timestamp: Date.now() });
+            if (isCacheable(analysis) && !scoring.targetKeyword) {
+              cache.set(cacheKey(u, fetchOptions), { data: result, timestamp: Date.now() });
+            }
             
             return { url: u, ...result };
           } catch (error) {
@@ -203,8 +269,16 @@ serve(async (req) => {
         })
       );
 
+      // Titles, descriptions, h1s and body text shared between the analyzed pages
+      const analyzed = results.filter((result) => result.success) as (SEOAnalysis & { url: string })[];
+      const duplicates = findDuplicates(analyzed.map((result) => ({ ...result.data, url: result.url })));
+      // Alternates name the page's address after redirects, not the one requested
+      const hreflang = checkHreflangReciprocity(
+        analyzed.map((result) => ({ url: result.http?.finalUrl ?? result.url, alternates: result.data.hreflang?.entries ?? [] }))
+      );
+
       return new Response(
-        JSON.stringify({ success: true, results }),
+        JSON.stringify({ success: true, results, duplicates, hreflang }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -225,27 +299,39 @@ serve(async (req) => {
 
     console.log('Analyzing SEO for URL:', url);
 
-    // Check cache
-    const cached = cache.get(url);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    // Rendering needs a service; without one say so rather than silently analyzing raw markup
+    const renderer = body.render === true ? getRenderer() : null;
+    if (body.render === true && !renderer) {
+      return new Response(
+        JSON.stringify({
+          error: 'Rendering is not configured',
+          hint: 'Set RENDERER_URL to a rendering service, or RENDERER=static for the local stand-in'
+        }),
+        {
+          status: 501,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Check cache (link and sitemap checks, rendering and keyword audits are always run fresh; scores are recomputed for the requested profile)
+    const cached = cache.get(cacheKey(url, fetchOptions));
+    if (!shouldCheckLinks && body.sitemap !== true && !renderer && !scoring.targetKeyword && cached && Date.now() - cached.timestamp < CACHE_TTL) {
       console.log('Returning cached result for:', url);
       return new Response(
-        JSON.stringify({ ...cached.data, cached: true }),
+        JSON.stringify({ ...cached.data, ...rescore(cached.data, scoring), cached: true }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     // Validate URL
     try {
-      const urlObj = new URL(url);
-      if (!urlObj.protocol.match(/^https?:/)) {
-        throw new Error('Only HTTP(S) URLs are supported');
-      }
+      await assertPublicUrl(url);
     } catch {
       return new Response(
         JSON.stringify({ 
           error: 'Invalid URL format',
-          hint: 'Please provide a valid URL starting with http:// or https://' 
+          hint: 'Please provide a public URL starting with http:// or https://' 
         }),
         {
           status: 400,
@@ -254,38 +340,38 @@ serve(async (req) => {
       );
     }
 
-    // Fetch website content
-    const proxyUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(url)}`;
-    const response = await fetch(proxyUrl);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch website: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (!data.contents) {
-      throw new Error('No content received from the website');
-    }
+    // Fetch website content and analyze SEO data
+    const analysis = await analyzeUrl(url, fetchOptions, scoring, renderer ?? undefined);
 
-    // Extract and analyze SEO data
-    const seoData = extractMetaData(data.contents, url);
-    const seoScore = calculateSEOScore(seoData);
     
     const result = {
       success: true,
-      data: seoData,
-      score: seoScore,
+      ...analysis,
       cached: false
     };
 
-    // Cache the result
-    cache.set(url, { data: result, timestamp: Date.now() });
+    // Cache the result; rendered and keyword results differ from plain ones and would be served for both
+    if (isCacheable(analysis) && !renderer && !scoring.targetKeyword) {
+      cache.set(cacheKey(url, fetchOptions), { data: result, timestamp: Date.now() });
+    }
+
+    // Link status is point-in-time, so it is returned but never cached
+    let linkCheck: LinkCheckReport | undefined;
+    if (shouldCheckLinks === true && analysis.data.links) {
+      console.log(`Checking ${analysis.data.links.total} links for:`, url);
+      linkCheck = await checkLinks(analysis.data.links.links, { userAgent: fetchOptions.userAgent });
+    }
+
+    let sitemapAudit: Awaited<ReturnType<typeof auditSitemaps>> | undefined;
+    if (body.sitemap === true) {
+      console.log('Reading sitemaps for:', url);
+      sitemapAudit = await auditSitemaps(url, body, fetchOptions, scoring);
+    }
 
     console.log('SEO analysis completed successfully');
 
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify({ ...result, ...(linkCheck ? { linkCheck } : {}), ...sitemapAudit }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
@@ -297,7 +383,10 @@ serve(async (req) => {
     let statusCode = 500;
     
     if (error instanceof Error) {
-      if (error.message.includes('fetch')) {
+      if (error.message.startsWith('Failed to fetch website:')) {
+        errorMessage = error.message;
+        statusCode = 502;
+      } else if (error.message.includes('fetch')) {
         errorMessage = 'Failed to fetch the website. The site may be blocking requests or experiencing issues.';
         statusCode = 502;
       } else {
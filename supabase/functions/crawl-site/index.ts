@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { CrawlOptions } from "../_shared/seo/index.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { crawlSite } from "../_shared/crawler.ts";
+import { createCrawlJob, getCrawlJob, updateCrawlJob } from "../_shared/crawl-jobs.ts";
+import { getFetchOptions, getScoringError } from "../_shared/request-options.ts";
+import { assertPublicUrl, type FetchPageOptions } from "../_shared/fetcher.ts";
+
+// Supabase keeps the worker alive for promises handed to waitUntil after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const DEFAULT_MAX_DEPTH = 2;
+const MAX_DEPTH = 5;
+const DEFAULT_MAX_PAGES = 25;
+const MAX_PAGES = 100;
+
+// Crawls are expensive, so starting them is limited far more tightly than single analyses
+const rateLimits = new Map<string, number[]>();
+const RATE_LIMIT = 2; // crawls per minute
+
+const checkRateLimit = (ip: string): boolean => {
+  const now = Date.now();
+  const recentRequests = (rateLimits.get(ip) || []).filter(time => now - time < 60000);
+  if (recentRequests.length >= RATE_LIMIT) {
+    return false;
+  }
+  recentRequests.push(now);
+  rateLimits.set(ip, recentRequests);
+  return true;
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const toPatterns = (value: unknown) =>
+  Array.isArray(value) ? value.filter((pattern): pattern is string => typeof pattern === 'string' && pattern !== '') : [];
+
+const getCrawlOptions = (body: Record<string, unknown>): CrawlOptions => {
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    typeof value === 'number' && value >= 0 ? Math.min(Math.floor(value), max) : fallback;
+
+  return {
+    maxDepth: clamp(body.maxDepth, DEFAULT_MAX_DEPTH, MAX_DEPTH),
+    maxPages: Math.max(1, clamp(body.maxPages, DEFAULT_MAX_PAGES, MAX_PAGES)),
+    include: toPatterns(body.include),
+    exclude: toPatterns(body.exclude),
+    profile: typeof body.profile === 'string' ? body.profile : 'default',
+    // Already checked by getScoringError
+    ...(body.weights !== undefined ? { weights: body.weights as Record<string, number> } : {}),
+    ...(typeof body.targetKeyword === 'string' ? { targetKeyword: body.targetKeyword } : {}),
+  };
+};
+
+const runCrawl = async (jobId: string, url: string, options: CrawlOptions, fetchOptions: FetchPageOptions) => {
+  try {
+    await updateCrawlJob(jobId, { status: 'running' });
+    const report = await crawlSite(url, options, fetchOptions, jobId, (pagesCrawled) =>
+      updateCrawlJob(jobId, { pagesCrawled })
+    );
+    await updateCrawlJob(jobId, { status: 'completed', pagesCrawled: report.pagesCrawled, report });
+    console.log(`Crawl ${jobId} completed: ${report.pagesCrawled} pages`);
+  } catch (error) {
+    console.error(`Crawl ${jobId} failed:`, error);
+    await updateCrawlJob(jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Crawl failed',
+    });
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Polling: GET ?jobId=... or POST {"jobId": "..."}
+    const body = req.method === 'GET' ? {} : await req.json();
+    const jobId = new URL(req.url).searchParams.get('jobId') || body.jobId;
+    if (jobId) {
+      const job = await getCrawlJob(String(jobId));
+      return job ? json({ success: true, job }) : json({ error: 'Crawl job not found' }, 404);
+    }
+
+    const { url } = body;
+    if (!url) {
+      return json({
+        error: 'URL parameter is required',
+        hint: 'Send {"url": "https://example.com"} to start a crawl or {"jobId": "..."} to poll one'
+      }, 400);
+    }
+    try {
+      await assertPublicUrl(url);
+    } catch {
+      return json({
+        error: 'Invalid URL format',
+        hint: 'Please provide a public URL starting with http:// or https://'
+      }, 400);
+    }
+
+    const scoringError = getScoringError(body);
+    if (scoringError) return json({ error: scoringError }, 400);
+
+    const clientIp = req.headers.get('x-forwarded-for') || 'unknown';
+    if (!checkRateLimit(clientIp)) {
+      return json({ error: 'Rate limit exceeded. Please try again in a minute.', retryAfter: 60 }, 429);
+    }
+
+    const options = getCrawlOptions(body);
+    const newJobId = await createCrawlJob(url, options);
+    if (!newJobId) {
+      return json({ error: 'Crawl jobs are unavailable: the job could not be stored' }, 503);
+    }
+
+    console.log(`Starting crawl ${newJobId} of ${url}`, options);
+    EdgeRuntime.waitUntil(runCrawl(newJobId, url, options, getFetchOptions(body)));
+
+    return json({ success: true, jobId: newJobId, status: 'queued', options }, 202);
+  } catch (error) {
+    console.error('Error in crawl-site function:', error);
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,52 @@
+-- One row per analyze-seo run, written by the edge function with the service role
+create table public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  url text not null,
+  final_url text,
+  profile text not null default 'default',
+  total_score integer not null,
+  -- Full SEOScore: total, per-category breakdown and max, rule results
+  score jsonb not null,
+  -- Full SEOData as extracted from the page
+  data jsonb not null,
+  http jsonb,
+  redirects jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index analyses_url_created_at_idx on public.analyses (url, created_at desc);
+create index analyses_created_at_idx on public.analyses (created_at desc);
+
+-- Actionable issues of a run, flattened so they can be filtered and counted in SQL
+create table public.analysis_issues (
+  id uuid primary key default gen_random_uuid(),
+  analysis_id uuid not null references public.analyses (id) on delete cascade,
+  rule_id text not null,
+  severity text not null check (severity in ('error', 'warning', 'notice')),
+  category text not null,
+  message text not null,
+  selector text not null default '',
+  observed text not null default '',
+  expected text not null default '',
+  fix text not null default '',
+  -- Position in the prioritized list returned by the API
+  position integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index analysis_issues_analysis_id_idx on public.analysis_issues (analysis_id, position);
+create index analysis_issues_rule_id_idx on public.analysis_issues (rule_id);
+
+-- History is shared by everyone using the app; only the edge function writes
+alter table public.analyses enable row level security;
+alter table public.analysis_issues enable row level security;
+
+create policy "Analyses are readable by everyone"
+  on public.analyses for select
+  to anon, authenticated
+  using (true);
+
+create policy "Analysis issues are readable by everyone"
+  on public.analysis_issues for select
+  to anon, authenticated
+  using (true);
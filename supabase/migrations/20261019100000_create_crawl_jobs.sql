@@ -0,0 +1,29 @@
+-- Asynchronous site crawls started through the crawl-site edge function
+create table public.crawl_jobs (
+  id uuid primary key default gen_random_uuid(),
+  start_url text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  -- CrawlOptions: maxDepth, maxPages, include, exclude, profile
+  options jsonb not null,
+  pages_crawled integer not null default 0,
+  -- SiteReport, set once the crawl completes
+  report jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index crawl_jobs_created_at_idx on public.crawl_jobs (created_at desc);
+
+-- Pages analyzed by a crawl are stored like any other run and linked to their job
+alter table public.analyses
+  add column crawl_job_id uuid references public.crawl_jobs (id) on delete cascade;
+
+create index analyses_crawl_job_id_idx on public.analyses (crawl_job_id);
+
+alter table public.crawl_jobs enable row level security;
+
+create policy "Crawl jobs are readable by everyone"
+  on public.crawl_jobs for select
+  to anon, authenticated
+  using (true);
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -13,6 +14,12 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
+  test: {
+    // The shared analyzer reads a DOM Document, so tests parse markup with jsdom
+    environment: "jsdom",
+    include: ["supabase/functions/**/*.test.ts"],
+  },
 }));